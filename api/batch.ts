@@ -0,0 +1,282 @@
+// POST /fetch/batch - Fetch many RSS/Atom feeds in one request
+// Each entry carries its own conditional GET headers; feeds are fetched with
+// bounded concurrency, and those that don't fit in the time budget are deferred
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  DEFAULT_FETCH_TIMEOUT,
+  MAX_TIMEOUT,
+  MAX_BATCH_SIZE,
+  BATCH_CONCURRENCY,
+  BATCH_TIME_BUDGET,
+  ErrorCodes,
+} from '../lib/config.js'
+import { setCorsHeaders, handleOptions } from '../lib/cors.js'
+import { checkBodySize } from '../lib/request.js'
+import { validateAuth } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { chargeRequests, checkQuota, startUsage } from '../lib/usage.js'
+import {
+  fetchFeed,
+  FETCH_FORMATS,
+  type FetchErrorResponse,
+  type FetchFormat,
+  type FetchRequest,
+  type FetchResponse,
+} from '../lib/fetch.js'
+
+// Don't start a fetch with less time than this left in the budget
+const MIN_FETCH_TIME = 1000
+
+// Per-feed fields of a /fetch request
+type BatchEntry = Omit<FetchRequest, 'timeout' | 'format'>
+
+interface BatchRequest {
+  requests: BatchEntry[]
+  format?: FetchFormat
+  timeout?: number // Per feed
+  budget?: number // For the whole batch, capped by BATCH_TIME_BUDGET_MS
+}
+
+// Not fetched within the time budget; the client should retry it later
+interface DeferredResponse extends FetchErrorResponse {
+  deferred: true
+}
+
+type BatchResult = { url: string } & (FetchResponse | DeferredResponse)
+
+interface BatchSuccessResponse {
+  success: true
+  results: BatchResult[] // Same order as the request
+  deferred: number
+}
+
+interface BatchErrorResponse {
+  success: false
+  error: {
+    code: string
+    message: string
+  }
+}
+
+type BatchResponse = BatchSuccessResponse | BatchErrorResponse
+
+function deferredResult(
+  url: string,
+  message = 'Not fetched within the batch time budget, retry later'
+): BatchResult {
+  return {
+    url,
+    success: false,
+    deferred: true,
+    error: {
+      code: ErrorCodes.DEFERRED,
+      message,
+    },
+  }
+}
+
+/**
+ * Fetch every entry with at most BATCH_CONCURRENCY requests in flight.
+ * A fetch never runs past the deadline: its timeout is cut to the time left,
+ * and one that times out only because of that cut is deferred, not failed.
+ */
+async function runBatch(
+  entries: BatchEntry[],
+  format: FetchFormat,
+  timeout: number,
+  deadline: number
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = entries.map((entry) => deferredResult(entry.url))
+  let next = 0
+
+  async function worker(): Promise<void> {
+    while (next < entries.length) {
+      const remaining = deadline - Date.now()
+      if (remaining < MIN_FETCH_TIME) return
+
+      const index = next++
+      const entry = entries[index]
+      if (!entry.url || typeof entry.url !== 'string') {
+        results[index] = {
+          url: entry.url,
+          success: false,
+          error: {
+            code: ErrorCodes.INVALID_URL,
+            message: 'Missing required field: url',
+          },
+        }
+        continue
+      }
+
+      const fetchTimeout = Math.min(timeout, remaining)
+      const { url, headers, credentials, knownGuids, since, hash } = entry
+      const result = await fetchFeed(
+        { url, headers, credentials, knownGuids, since, hash, format },
+        fetchTimeout
+      )
+      const cutByBudget =
+        !result.success && result.error.code === ErrorCodes.TIMEOUT && fetchTimeout < timeout
+      if (!cutByBudget) {
+        results[index] = { url: entry.url, ...result }
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(BATCH_CONCURRENCY, entries.length))
+  await Promise.all(Array.from({ length: workers }, () => worker()))
+  return results
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  const startedAt = Date.now()
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    handleOptions(req, res)
+    return
+  }
+
+  setCorsHeaders(req, res)
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: {
+        code: 'METHOD_NOT_ALLOWED',
+        message: 'Method not allowed',
+      },
+    })
+    return
+  }
+
+  // Batches are part of /fetch and share its API key scope
+  const auth = validateAuth(req, 'fetch')
+  if (!auth.authenticated) {
+    res.status(auth.status ?? 401).json({
+      ok: false,
+      error: auth.error,
+    })
+    return
+  }
+
+  // Enforce rate limits for this API key and client IP; this token covers the first entry
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`,
+        },
+      })
+      return
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    res.status(429).json({
+      success: false,
+      error: {
+        code: ErrorCodes.QUOTA_EXCEEDED,
+        message: `Monthly quota of ${quota.limit} requests exceeded`,
+      },
+    })
+    return
+  }
+  startUsage(res, 'fetch', auth)
+
+  // Refuse oversized bodies before reading them
+  if (!checkBodySize(req, res)) return
+
+  // Parse request body
+  let body: BatchRequest
+  try {
+    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+  } catch {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Invalid request body',
+      },
+    } as BatchErrorResponse)
+    return
+  }
+
+  // Validate required fields
+  if (!body || !Array.isArray(body.requests) || body.requests.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Missing required field: requests',
+      },
+    } as BatchErrorResponse)
+    return
+  }
+
+  if (body.requests.length > MAX_BATCH_SIZE) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: `Too many requests in batch (max ${MAX_BATCH_SIZE})`,
+      },
+    } as BatchErrorResponse)
+    return
+  }
+
+  // Determine format
+  const format = body.format || 'raw'
+  if (!FETCH_FORMATS.includes(format)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Invalid format: must be "raw" or "parsed"',
+      },
+    } as BatchErrorResponse)
+    return
+  }
+
+  // Calculate per-feed timeout and the overall deadline
+  const timeout = Math.min(body.timeout || DEFAULT_FETCH_TIMEOUT, MAX_TIMEOUT)
+  const budget = Math.min(body.budget || BATCH_TIME_BUDGET, BATCH_TIME_BUDGET)
+  const entries = body.requests.map((entry) => (entry && typeof entry === 'object' ? entry : { url: '' }))
+
+  // Every entry costs a rate-limit token and a request of quota. Entries past
+  // what the buckets and the quota cover are deferred without being fetched.
+  let covered = entries.length
+  if (covered > 1) {
+    const extra = await checkRateLimit(req, auth, covered - 1)
+    if (extra) {
+      setRateLimitHeaders(res, { ...extra, allowed: true })
+      covered = 1 + extra.granted
+    }
+  }
+  if (quota) covered = Math.min(covered, quota.remaining)
+  chargeRequests(covered)
+
+  const results = [
+    ...(await runBatch(entries.slice(0, covered), format, timeout, startedAt + budget)),
+    ...entries
+      .slice(covered)
+      .map((entry) => deferredResult(entry.url, 'Rate limit or monthly quota reached, retry later')),
+  ]
+
+  const response: BatchResponse = {
+    success: true,
+    results,
+    deferred: results.filter((result) => 'deferred' in result).length,
+  }
+  res.status(200).json(response)
+}
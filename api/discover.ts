@@ -1,5 +1,6 @@
 // POST /discover - Discover RSS/Atom feeds from a URL and extract blog metadata
 // Consolidates blog discovery, feed parsing, and metadata extraction into a single request
+// Also accepts GET /discover?url=... (e.g. signed URLs from POST /sign)
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import Parser from 'rss-parser'
@@ -8,13 +9,21 @@ import {
   DEFAULT_DISCOVER_TIMEOUT,
   MAX_DISCOVER_TIMEOUT,
   MAX_HTML_SIZE,
+  MAX_RESPONSE_SIZE,
+  MAX_RETRIES,
   COMMON_FEED_PATHS,
   ErrorCodes,
 } from '../lib/config.js'
 import { setCorsHeaders, handleOptions } from '../lib/cors.js'
 import { validateAuth } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { checkQuota, startUsage } from '../lib/usage.js'
 import { validateUrl } from '../lib/ssrf.js'
+import { getQueryParam, checkBodySize } from '../lib/request.js'
 import { resolveUrl } from '../lib/sanitize.js'
+import { safeFetch, describeFetchError, type SafeFetchOptions, type RedirectHop } from '../lib/http.js'
+import { cachedFetch } from '../lib/cache.js'
+import { decodeBody } from '../lib/encoding.js'
 
 // ============================================================================
 // Types
@@ -72,6 +81,9 @@ interface DiscoverSuccessResponse {
   images: Images
   content_analysis: ContentAnalysis | null
   recent_posts: RecentPost[] | null
+  finalUrl: string // URL that served the feed or page fetched for the input, after redirects
+  redirects: RedirectHop[]
+  attempts: number // Upstream requests made, counting retries; cache hits count 0
   message?: string
 }
 
@@ -93,6 +105,11 @@ interface DiscoverErrorResponse {
 
 type DiscoverResponse = DiscoverSuccessResponse | DiscoverPlatformHintResponse | DiscoverErrorResponse
 
+// Running total of upstream requests across every fetch one discovery makes
+interface AttemptCounter {
+  total: number
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -177,26 +194,18 @@ function extractHomepageUrl(url: URL): string {
 }
 
 /**
- * Fetch with timeout
+ * Fetch with timeout, validating every redirect hop against SSRF rules and
+ * retrying transient failures
  */
 async function fetchWithTimeout(
   url: string,
   timeout: number,
-  options: RequestInit = {}
+  attempts: AttemptCounter,
+  options: Omit<SafeFetchOptions, 'timeout'> = {}
 ): Promise<Response> {
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      redirect: 'follow',
-    })
-    return response
-  } finally {
-    clearTimeout(timeoutId)
-  }
+  const result = await safeFetch(url, { retries: MAX_RETRIES, ...options, timeout })
+  attempts.total += result.attempts
+  return result.response
 }
 
 /**
@@ -291,7 +300,8 @@ function extractOgImage(document: Document, baseUrl: string): string | null {
  */
 async function probeFeedPaths(
   origin: string,
-  timeout: number
+  timeout: number,
+  attempts: AttemptCounter
 ): Promise<FeedInfo[]> {
   const feeds: FeedInfo[] = []
 
@@ -309,7 +319,7 @@ async function probeFeedPaths(
         if (!validation.valid) return null
 
         try {
-          const response = await fetchWithTimeout(url, timeout, {
+          const response = await fetchWithTimeout(url, timeout, attempts, {
             method: 'HEAD',
             headers: {
               'User-Agent': 'BlogsAreBack/1.0 (Feed Discovery)',
@@ -317,6 +327,7 @@ async function probeFeedPaths(
             },
           })
 
+          await response.body?.cancel().catch(() => {})
           if (response.ok) {
             const contentType = response.headers.get('content-type') || ''
             if (
@@ -356,22 +367,32 @@ async function probeFeedPaths(
  */
 async function parseFeed(
   feedUrl: string,
-  timeout: number
+  timeout: number,
+  attempts: AttemptCounter
 ): Promise<{
   metadata: FeedMetadata
   posts: RecentPost[]
   contentAnalysis: ContentAnalysis
 } | null> {
   try {
-    const parser = new Parser({
-      timeout,
+    // Fetch through the SSRF-checked client rather than rss-parser's own HTTP client
+    const { response, body, attempts: made } = await cachedFetch(feedUrl, {
+      method: 'GET',
       headers: {
         'User-Agent': 'BlogsAreBack/1.0 (Feed Parser)',
         Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
       },
+      timeout,
+      retries: MAX_RETRIES,
+      maxBytes: MAX_RESPONSE_SIZE,
+      label: 'Feed',
     })
+    attempts.total += made
+    if (!response.ok) return null
 
-    const feed = await parser.parseURL(feedUrl)
+    const xml = decodeBody(body, response.headers.get('content-type'), 'xml').text
+    const parser = new Parser()
+    const feed = await parser.parseString(xml)
 
     // Extract metadata
     const metadata: FeedMetadata = {
@@ -438,25 +459,35 @@ function analyzeFullContent(
 }
 
 /**
- * Validate if URL is a valid feed
+ * Validate if URL is a valid feed, returning where it was served from
  */
-async function validateFeedUrl(url: string, timeout: number): Promise<boolean> {
+async function validateFeedUrl(
+  url: string,
+  timeout: number,
+  attempts: AttemptCounter
+): Promise<{ url: string; redirects: RedirectHop[] } | null> {
   try {
-    const response = await fetchWithTimeout(url, timeout, {
+    const result = await cachedFetch(url, {
       method: 'GET',
       headers: {
         'User-Agent': 'BlogsAreBack/1.0 (Feed Validation)',
         Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
       },
+      timeout,
+      retries: MAX_RETRIES,
+      maxBytes: MAX_RESPONSE_SIZE,
+      label: 'Feed',
     })
+    attempts.total += result.attempts
 
-    if (!response.ok) return false
+    if (!result.response.ok) return null
 
-    const text = await response.text()
+    const text = decodeBody(result.body, result.response.headers.get('content-type'), 'xml').text
     // Quick check for XML feed markers
-    return text.includes('<rss') || text.includes('<feed') || text.includes('<channel')
+    const isFeed = text.includes('<rss') || text.includes('<feed') || text.includes('<channel')
+    return isFeed ? { url: result.url, redirects: result.redirects } : null
   } catch {
-    return false
+    return null
   }
 }
 
@@ -470,14 +501,14 @@ export default async function handler(
 ): Promise<void> {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
-    handleOptions(res)
+    handleOptions(req, res)
     return
   }
 
-  setCorsHeaders(res)
+  setCorsHeaders(req, res)
 
-  // Only allow POST
-  if (req.method !== 'POST') {
+  // Allow POST, or GET with the request in the query string (e.g. signed URLs)
+  if (req.method !== 'POST' && req.method !== 'GET') {
     res.status(405).json({
       success: false,
       error: {
@@ -489,19 +520,58 @@ export default async function handler(
   }
 
   // Validate API key if configured
-  const auth = validateAuth(req)
+  const auth = validateAuth(req, 'discover')
   if (!auth.authenticated) {
-    res.status(401).json({
+    res.status(auth.status ?? 401).json({
       ok: false,
       error: auth.error,
     })
     return
   }
 
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`,
+        },
+      })
+      return
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    res.status(429).json({
+      success: false,
+      error: {
+        code: ErrorCodes.QUOTA_EXCEEDED,
+        message: `Monthly quota of ${quota.limit} requests exceeded`,
+      },
+    })
+    return
+  }
+  startUsage(res, 'discover', auth)
+
+  // Refuse oversized bodies before reading them
+  if (!checkBodySize(req, res)) return
+
   // Parse request body
   let body: DiscoverRequest
   try {
-    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+    if (req.method === 'GET') {
+      body = {
+        url: getQueryParam(req, 'url') || '',
+      }
+    } else {
+      body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+    }
   } catch {
     res.status(400).json({
       success: false,
@@ -594,13 +664,14 @@ export default async function handler(
   let metadata: FeedMetadata | null = null
   let contentAnalysis: ContentAnalysis | null = null
   let recentPosts: RecentPost[] | null = null
+  const attempts: AttemptCounter = { total: 0 }
 
   try {
     // If input is a feed URL, parse directly
     if (inputType === 'feed') {
       // Validate it's actually a feed
-      const isValid = await validateFeedUrl(normalizedUrlString, homepageTimeout)
-      if (!isValid) {
+      const validated = await validateFeedUrl(normalizedUrlString, homepageTimeout, attempts)
+      if (!validated) {
         // Fall back to treating it as a homepage
         inputType = 'homepage'
         homepageUrl = url.origin
@@ -612,7 +683,7 @@ export default async function handler(
         }]
 
         // Parse the feed
-        const parsed = await parseFeed(normalizedUrlString, parseTimeout)
+        const parsed = await parseFeed(normalizedUrlString, parseTimeout, attempts)
         if (parsed) {
           metadata = parsed.metadata
           recentPosts = parsed.posts
@@ -624,16 +695,21 @@ export default async function handler(
           // Try to discover images from feed's homepage link
           if (metadata.link) {
             try {
-              const homeResponse = await fetchWithTimeout(metadata.link, homepageTimeout, {
+              const home = await cachedFetch(metadata.link, {
                 method: 'GET',
                 headers: {
                   'User-Agent': 'Mozilla/5.0 (compatible; BlogsAreBack/1.0)',
                   Accept: 'text/html',
                 },
+                timeout: homepageTimeout,
+                retries: MAX_RETRIES,
+                maxBytes: MAX_HTML_SIZE,
+                label: 'HTML',
               })
+              attempts.total += home.attempts
 
-              if (homeResponse.ok) {
-                const html = await homeResponse.text()
+              if (home.response.ok) {
+                const html = decodeBody(home.body, home.response.headers.get('content-type'), 'html').text
                 const { document } = parseHTML(html)
                 images = {
                   site_icon: extractFavicon(document as unknown as Document, metadata.link),
@@ -656,6 +732,9 @@ export default async function handler(
           images,
           content_analysis: contentAnalysis,
           recent_posts: recentPosts,
+          finalUrl: validated.url,
+          redirects: validated.redirects,
+          attempts: attempts.total,
         }
 
         res.status(200).json(response)
@@ -665,53 +744,45 @@ export default async function handler(
 
     // Fetch homepage HTML
     let html: string
+    let finalUrl: string
+    let redirects: RedirectHop[]
     try {
-      const response = await fetchWithTimeout(homepageUrl, homepageTimeout, {
+      // Through the response cache, reading the page up to the size limit
+      const result = await cachedFetch(homepageUrl, {
         method: 'GET',
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; BlogsAreBack/1.0; +https://blogsareback.com)',
           Accept: 'text/html, application/xhtml+xml, */*',
         },
+        timeout: homepageTimeout,
+        retries: MAX_RETRIES,
+        maxBytes: MAX_HTML_SIZE,
+        label: 'HTML',
       })
+      const response = result.response
+      res.setHeader('X-Cache', result.cache)
+      attempts.total += result.attempts
 
       if (!response.ok) {
         res.status(200).json({
           success: false,
           error: {
             code: ErrorCodes.FETCH_FAILED,
-            message: `HTTP ${response.status}: ${response.statusText}`,
+            message:
+              `HTTP ${response.status}: ${response.statusText}` +
+              (result.attempts > 1 ? ` (after ${result.attempts} attempts)` : ''),
           },
         } as DiscoverErrorResponse)
         return
       }
 
-      const arrayBuffer = await response.arrayBuffer()
-      if (arrayBuffer.byteLength > MAX_HTML_SIZE) {
-        res.status(200).json({
-          success: false,
-          error: {
-            code: ErrorCodes.CONTENT_TOO_LARGE,
-            message: `HTML exceeds maximum size of ${MAX_HTML_SIZE / 1024 / 1024}MB`,
-          },
-        } as DiscoverErrorResponse)
-        return
-      }
-
-      html = new TextDecoder().decode(arrayBuffer)
+      html = decodeBody(result.body, response.headers.get('content-type'), 'html').text
+      finalUrl = result.url
+      redirects = result.redirects
     } catch (error) {
-      const isTimeout = error instanceof Error &&
-        (error.name === 'AbortError' || error.message.includes('timeout'))
-
       res.status(200).json({
         success: false,
-        error: {
-          code: isTimeout ? ErrorCodes.TIMEOUT : ErrorCodes.FETCH_FAILED,
-          message: isTimeout
-            ? 'Request timed out'
-            : error instanceof Error
-              ? error.message
-              : 'Network error during fetch',
-        },
+        error: describeFetchError(error),
       } as DiscoverErrorResponse)
       return
     }
@@ -720,25 +791,25 @@ export default async function handler(
     const { document } = parseHTML(html)
     const doc = document as unknown as Document
 
-    // Extract images
+    // Extract images, resolving relative URLs against the final URL after redirects
     images = {
-      site_icon: extractFavicon(doc, homepageUrl),
-      og_image: extractOgImage(doc, homepageUrl),
+      site_icon: extractFavicon(doc, finalUrl),
+      og_image: extractOgImage(doc, finalUrl),
     }
 
     // Discover feeds from HTML link tags
-    feeds = discoverFeedsFromHtml(doc, homepageUrl)
+    feeds = discoverFeedsFromHtml(doc, finalUrl)
 
     // If no feeds found in HTML, probe common paths
     if (feeds.length === 0) {
       const origin = new URL(homepageUrl).origin
-      feeds = await probeFeedPaths(origin, probeTimeout)
+      feeds = await probeFeedPaths(origin, probeTimeout, attempts)
     }
 
     // Parse the recommended feed (first valid one)
     if (feeds.length > 0) {
       const recommendedFeedUrl = feeds[0].url
-      const parsed = await parseFeed(recommendedFeedUrl, parseTimeout)
+      const parsed = await parseFeed(recommendedFeedUrl, parseTimeout, attempts)
 
       if (parsed) {
         metadata = parsed.metadata
@@ -768,6 +839,9 @@ export default async function handler(
       images,
       content_analysis: contentAnalysis,
       recent_posts: recentPosts,
+      finalUrl,
+      redirects,
+      attempts: attempts.total,
     }
 
     if (feeds.length === 0) {
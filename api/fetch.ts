@@ -1,70 +1,16 @@
 // POST /fetch - Fetch RSS/Atom feed with CORS bypass
 // Supports conditional GET via If-None-Match and If-Modified-Since headers
+// With format "parsed", returns a normalized JSON feed instead of the raw XML
+// Also accepts GET /fetch?url=...&format=... (e.g. signed URLs from POST /sign)
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import {
-  DEFAULT_FETCH_TIMEOUT,
-  MAX_TIMEOUT,
-  MAX_RESPONSE_SIZE,
-  HEADERS_TO_EXTRACT,
-  ALLOWED_FORWARD_HEADERS,
-  ErrorCodes,
-} from '../lib/config.js'
+import { DEFAULT_FETCH_TIMEOUT, MAX_TIMEOUT, ErrorCodes } from '../lib/config.js'
 import { setCorsHeaders, handleOptions } from '../lib/cors.js'
 import { validateAuth } from '../lib/auth.js'
-import { validateUrl } from '../lib/ssrf.js'
-
-interface FetchRequest {
-  url: string
-  headers?: Record<string, string>
-  timeout?: number
-}
-
-interface FetchSuccessResponse {
-  success: true
-  status: number
-  headers: Record<string, string>
-  body: string | null
-}
-
-interface FetchErrorResponse {
-  success: false
-  error: {
-    code: string
-    message: string
-    status?: number | null
-  }
-}
-
-type FetchResponse = FetchSuccessResponse | FetchErrorResponse
-
-function extractHeaders(
-  responseHeaders: Headers,
-  headersToExtract: string[]
-): Record<string, string> {
-  const result: Record<string, string> = {}
-  for (const header of headersToExtract) {
-    const value = responseHeaders.get(header)
-    if (value !== null) {
-      result[header] = value
-    }
-  }
-  return result
-}
-
-function filterForwardHeaders(
-  clientHeaders: Record<string, string> | undefined
-): Record<string, string> {
-  if (!clientHeaders) return {}
-
-  const result: Record<string, string> = {}
-  for (const [key, value] of Object.entries(clientHeaders)) {
-    if (ALLOWED_FORWARD_HEADERS.includes(key.toLowerCase())) {
-      result[key] = value
-    }
-  }
-  return result
-}
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { checkQuota, startUsage } from '../lib/usage.js'
+import { getQueryParam, checkBodySize } from '../lib/request.js'
+import { fetchFeed, FETCH_FORMATS, type FetchRequest } from '../lib/fetch.js'
 
 export default async function handler(
   req: VercelRequest,
@@ -72,14 +18,14 @@ export default async function handler(
 ): Promise<void> {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
-    handleOptions(res)
+    handleOptions(req, res)
     return
   }
 
-  setCorsHeaders(res)
+  setCorsHeaders(req, res)
 
-  // Only allow POST
-  if (req.method !== 'POST') {
+  // Allow POST, or GET with the request in the query string (e.g. signed URLs)
+  if (req.method !== 'POST' && req.method !== 'GET') {
     res.status(405).json({
       success: false,
       error: {
@@ -91,19 +37,59 @@ export default async function handler(
   }
 
   // Validate API key if configured
-  const auth = validateAuth(req)
+  const auth = validateAuth(req, 'fetch')
   if (!auth.authenticated) {
-    res.status(401).json({
+    res.status(auth.status ?? 401).json({
       ok: false,
       error: auth.error,
     })
     return
   }
 
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`,
+        },
+      })
+      return
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    res.status(429).json({
+      success: false,
+      error: {
+        code: ErrorCodes.QUOTA_EXCEEDED,
+        message: `Monthly quota of ${quota.limit} requests exceeded`,
+      },
+    })
+    return
+  }
+  startUsage(res, 'fetch', auth)
+
+  // Refuse oversized bodies before reading them
+  if (!checkBodySize(req, res)) return
+
   // Parse request body
   let body: FetchRequest
   try {
-    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+    if (req.method === 'GET') {
+      body = {
+        url: getQueryParam(req, 'url') || '',
+        format: getQueryParam(req, 'format') as FetchRequest['format'],
+      }
+    } else {
+      body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+    }
   } catch {
     res.status(400).json({
       success: false,
@@ -127,125 +113,24 @@ export default async function handler(
     return
   }
 
-  // Validate URL for SSRF
-  const urlValidation = validateUrl(body.url)
-  if (!urlValidation.valid) {
-    res.status(200).json({
-      success: false,
-      error: urlValidation.error,
-    } as FetchErrorResponse)
-    return
-  }
-
-  // Calculate timeout
-  const timeout = Math.min(body.timeout || DEFAULT_FETCH_TIMEOUT, MAX_TIMEOUT)
-
-  // Build request headers
-  const forwardHeaders = filterForwardHeaders(body.headers)
-  const requestHeaders: HeadersInit = {
-    'User-Agent': 'BlogsAreBack/1.0 (CORS Proxy)',
-    Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
-    ...forwardHeaders,
-  }
-
-  // Fetch the feed
-  let response: Response
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-    response = await fetch(body.url, {
-      method: 'GET',
-      headers: requestHeaders,
-      signal: controller.signal,
-      redirect: 'follow',
-    })
-
-    clearTimeout(timeoutId)
-  } catch (error) {
-    const isTimeout =
-      error instanceof Error &&
-      (error.name === 'AbortError' || error.message.includes('timeout'))
-
-    res.status(200).json({
-      success: false,
-      error: {
-        code: isTimeout ? ErrorCodes.TIMEOUT : ErrorCodes.FETCH_FAILED,
-        message: isTimeout
-          ? 'Request timed out'
-          : error instanceof Error
-            ? error.message
-            : 'Network error during fetch',
-        status: null,
-      },
-    } as FetchErrorResponse)
-    return
-  }
-
-  // Handle 304 Not Modified
-  if (response.status === 304) {
-    const responseData: FetchSuccessResponse = {
-      success: true,
-      status: 304,
-      headers: extractHeaders(response.headers, HEADERS_TO_EXTRACT),
-      body: null,
-    }
-    res.status(200).json(responseData)
-    return
-  }
-
-  // Check content length before reading body
-  const contentLength = response.headers.get('content-length')
-  if (contentLength && parseInt(contentLength, 10) > MAX_RESPONSE_SIZE) {
-    res.status(200).json({
-      success: false,
-      error: {
-        code: ErrorCodes.CONTENT_TOO_LARGE,
-        message: `Response exceeds maximum size of ${MAX_RESPONSE_SIZE / 1024 / 1024}MB`,
-        status: response.status,
-      },
-    } as FetchErrorResponse)
-    return
-  }
-
-  // Read response body with size limit
-  let responseBody: string
-  try {
-    const arrayBuffer = await response.arrayBuffer()
-
-    if (arrayBuffer.byteLength > MAX_RESPONSE_SIZE) {
-      res.status(200).json({
-        success: false,
-        error: {
-          code: ErrorCodes.CONTENT_TOO_LARGE,
-          message: `Response exceeds maximum size of ${MAX_RESPONSE_SIZE / 1024 / 1024}MB`,
-          status: response.status,
-        },
-      } as FetchErrorResponse)
-      return
-    }
-
-    responseBody = new TextDecoder().decode(arrayBuffer)
-  } catch (error) {
-    res.status(200).json({
+  // Determine format
+  const format = body.format || 'raw'
+  if (!FETCH_FORMATS.includes(format)) {
+    res.status(400).json({
       success: false,
       error: {
-        code: ErrorCodes.FETCH_FAILED,
-        message:
-          error instanceof Error ? error.message : 'Failed to read response body',
-        status: response.status,
+        code: ErrorCodes.INVALID_URL,
+        message: 'Invalid format: must be "raw" or "parsed"',
       },
-    } as FetchErrorResponse)
+    })
     return
   }
 
-  // Return successful response
-  const responseData: FetchSuccessResponse = {
-    success: true,
-    status: response.status,
-    headers: extractHeaders(response.headers, HEADERS_TO_EXTRACT),
-    body: responseBody,
-  }
+  // Calculate timeout
+  const timeout = Math.min(body.timeout || DEFAULT_FETCH_TIMEOUT, MAX_TIMEOUT)
 
-  res.status(200).json(responseData)
+  // Validate, fetch and (optionally) parse the feed
+  const result = await fetchFeed({ ...body, format }, timeout)
+  res.setHeader('X-Cache', result.success ? result.cache : 'MISS')
+  res.status(200).json(result)
 }
@@ -4,15 +4,17 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { VERSION, PROVIDER } from '../lib/config.js'
 import { setCorsHeaders, handleOptions } from '../lib/cors.js'
-import { validateAuth } from '../lib/auth.js'
+import { validateAuth, isSigningEnabled } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { checkQuota, startUsage } from '../lib/usage.js'
 
-export default function handler(req: VercelRequest, res: VercelResponse) {
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
-    return handleOptions(res)
+    return handleOptions(req, res)
   }
 
-  setCorsHeaders(res)
+  setCorsHeaders(req, res)
 
   // Only allow GET
   if (req.method !== 'GET') {
@@ -23,19 +25,50 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // Validate API key if configured
-  const auth = validateAuth(req)
+  const auth = validateAuth(req, 'health')
   if (!auth.authenticated) {
-    return res.status(401).json({
+    return res.status(auth.status ?? 401).json({
       ok: false,
       error: auth.error,
     })
   }
 
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      return res.status(429).json({
+        ok: false,
+        error: 'Rate limit exceeded',
+      })
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    return res.status(429).json({
+      ok: false,
+      error: 'Monthly quota exceeded',
+    })
+  }
+  startUsage(res, 'health', auth)
+
   // Return health status with capabilities
   return res.status(200).json({
     ok: true,
     version: VERSION,
     provider: PROVIDER,
-    capabilities: ['fetch', 'parse', 'discover'],
+    capabilities: [
+      'fetch',
+      'batch',
+      'parse',
+      'discover',
+      'raw',
+      'image',
+      'usage',
+      ...(isSigningEnabled() ? ['sign'] : []),
+    ],
   })
 }
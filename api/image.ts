@@ -0,0 +1,197 @@
+// GET /image?url=... - Proxy an image for display in the reader
+// Works around hotlink protection and mixed-content blocking; the bytes must
+// be a recognized image format, whatever the upstream Content-Type says
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  DEFAULT_FETCH_TIMEOUT,
+  MAX_TIMEOUT,
+  MAX_IMAGE_SIZE,
+  IMAGE_SVG_MODE,
+  IMAGE_CACHE_MAX_AGE,
+  ErrorCodes,
+} from '../lib/config.js'
+import { setCorsHeaders, handleOptions } from '../lib/cors.js'
+import { validateAuth } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { checkQuota, startUsage } from '../lib/usage.js'
+import { validateUrl } from '../lib/ssrf.js'
+import { getQueryParam } from '../lib/request.js'
+import { safeFetch, readBody, describeFetchError } from '../lib/http.js'
+import { httpStatusForError } from '../lib/errors.js'
+import { detectImageType, sanitizeSvg, SVG_TYPE } from '../lib/image.js'
+
+interface ImageErrorResponse {
+  success: false
+  error: {
+    code: string
+    message: string
+  }
+}
+
+function sendError(res: VercelResponse, code: string, message: string, status?: number): void {
+  res.status(status ?? httpStatusForError(code)).json({
+    success: false,
+    error: { code, message },
+  } as ImageErrorResponse)
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    handleOptions(req, res)
+    return
+  }
+
+  setCorsHeaders(req, res)
+
+  // Only allow GET
+  if (req.method !== 'GET') {
+    sendError(res, 'METHOD_NOT_ALLOWED', 'Method not allowed', 405)
+    return
+  }
+
+  // Validate API key if configured (<img> tags use signed URLs)
+  const auth = validateAuth(req, 'image')
+  if (!auth.authenticated) {
+    res.status(auth.status ?? 401).json({
+      ok: false,
+      error: auth.error,
+    })
+    return
+  }
+
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      sendError(
+        res,
+        ErrorCodes.RATE_LIMITED,
+        `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`
+      )
+      return
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    sendError(res, ErrorCodes.QUOTA_EXCEEDED, `Monthly quota of ${quota.limit} requests exceeded`)
+    return
+  }
+  startUsage(res, 'image', auth)
+
+  // Shared caches may only keep images fetched without a key or signature;
+  // otherwise they would hand them to clients who never authenticated
+  const cacheScope = auth.client ? 'private' : 'public'
+  const cacheControl = `${cacheScope}, max-age=${IMAGE_CACHE_MAX_AGE}, immutable`
+
+  // Validate required fields
+  const url = getQueryParam(req, 'url')
+  if (!url) {
+    sendError(res, ErrorCodes.INVALID_URL, 'Missing required parameter: url')
+    return
+  }
+
+  // Validate URL for SSRF
+  const urlValidation = validateUrl(url)
+  if (!urlValidation.valid) {
+    sendError(res, urlValidation.error!.code, urlValidation.error!.message)
+    return
+  }
+
+  // Present the request as coming from the image's own site, which satisfies
+  // the Referer checks used for hotlink protection
+  const requestHeaders: Record<string, string> = {
+    'User-Agent': 'Mozilla/5.0 (compatible; BlogsAreBack/1.0; +https://blogsareback.com)',
+    Accept: 'image/avif, image/webp, image/png, image/jpeg, image/gif, image/*;q=0.8',
+    Referer: `${urlValidation.url!.origin}/`,
+  }
+  for (const header of ['if-none-match', 'if-modified-since']) {
+    const value = req.headers[header]
+    if (typeof value === 'string') {
+      requestHeaders[header] = value
+    }
+  }
+
+  let response: Response
+  let bytes: Uint8Array
+  try {
+    const result = await safeFetch(url, {
+      method: 'GET',
+      headers: requestHeaders,
+      timeout: Math.min(DEFAULT_FETCH_TIMEOUT, MAX_TIMEOUT),
+    })
+    response = result.response
+
+    if (response.status === 304) {
+      await response.body?.cancel().catch(() => {})
+      for (const header of ['etag', 'last-modified']) {
+        const value = response.headers.get(header)
+        if (value !== null) res.setHeader(header, value)
+      }
+      res.setHeader('Cache-Control', cacheControl)
+      res.status(304).end()
+      return
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {})
+      sendError(
+        res,
+        ErrorCodes.FETCH_FAILED,
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status >= 400 && response.status < 500 ? response.status : 502
+      )
+      return
+    }
+
+    // Buffered rather than streamed: the type is decided from the bytes
+    bytes = await readBody(response, MAX_IMAGE_SIZE, 'Image')
+  } catch (error) {
+    const { code, message } = describeFetchError(error)
+    sendError(res, code, message)
+    return
+  }
+
+  const imageType = detectImageType(bytes)
+  if (!imageType) {
+    sendError(res, ErrorCodes.UNSUPPORTED, 'Response is not a supported image format')
+    return
+  }
+
+  let body: Uint8Array | string = bytes
+  if (imageType === SVG_TYPE) {
+    const sanitized =
+      IMAGE_SVG_MODE === 'sanitize' ? sanitizeSvg(new TextDecoder().decode(bytes)) : null
+    if (sanitized === null) {
+      sendError(
+        res,
+        ErrorCodes.UNSUPPORTED,
+        IMAGE_SVG_MODE === 'sanitize' ? 'SVG could not be parsed' : 'SVG images are not allowed'
+      )
+      return
+    }
+    body = sanitized
+  }
+
+  // The detected type replaces the upstream Content-Type
+  res.setHeader('Content-Type', imageType === SVG_TYPE ? `${SVG_TYPE}; charset=utf-8` : imageType)
+  res.setHeader('Content-Length', String(Buffer.byteLength(body)))
+  res.setHeader('Cache-Control', cacheControl)
+  if (body === bytes) {
+    // Validators only describe the upstream bytes, not a sanitized SVG
+    for (const header of ['etag', 'last-modified']) {
+      const value = response.headers.get(header)
+      if (value !== null) res.setHeader(header, value)
+    }
+  }
+  res.setHeader('X-Content-Type-Options', 'nosniff')
+  res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox")
+  res.status(200).end(typeof body === 'string' ? body : Buffer.from(body))
+}
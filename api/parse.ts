@@ -1,5 +1,7 @@
 // POST /parse - Extract article content using Mozilla Readability
 // Fetches a URL and returns cleaned, readable content
+// Also accepts GET /parse?url=...&format=...&proxyImages=... (e.g. signed URLs from POST /sign)
+// POST bodies may carry the page's HTML, which is then extracted without fetching
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { Readability } from '@mozilla/readability'
@@ -8,17 +10,50 @@ import {
   DEFAULT_PARSE_TIMEOUT,
   MAX_TIMEOUT,
   MAX_HTML_SIZE,
+  MAX_REQUEST_BODY,
+  MAX_HTML_UPLOAD,
+  MAX_RETRIES,
+  MAX_PARSE_PAGES,
   ErrorCodes,
 } from '../lib/config.js'
 import { setCorsHeaders, handleOptions } from '../lib/cors.js'
 import { validateAuth } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { checkQuota, startUsage } from '../lib/usage.js'
 import { validateUrl } from '../lib/ssrf.js'
-import { sanitizeHtml, resolveUrl } from '../lib/sanitize.js'
+import { getQueryParam, checkBodySize } from '../lib/request.js'
+import { sanitizeHtml } from '../lib/sanitize.js'
+import { describeFetchError, type RedirectHop } from '../lib/http.js'
+import { cachedFetch, type CachedFetchResult } from '../lib/cache.js'
+import {
+  resolveCredentials,
+  redactSecrets,
+  mayReceiveCredentials,
+  type Credentials,
+} from '../lib/credentials.js'
+import { decodeBody } from '../lib/encoding.js'
+import { createImageUrlRewriter } from '../lib/image.js'
+import { htmlToMarkdown, markCodeLanguages, frontMatter } from '../lib/markdown.js'
+import { findNextPageUrl, mergePages } from '../lib/pagination.js'
+import { extractMetadata, countWords, readingTime } from '../lib/metadata.js'
+import {
+  findSiteRule,
+  rewriteSinglePageUrl,
+  applySiteRule,
+  type SiteRule,
+} from '../lib/siterules.js'
+
+// Don't start fetching another page with less time than this left
+const MIN_PAGE_TIME = 1000
 
 interface ParseRequest {
   url: string
-  format?: 'html' | 'text' | 'both'
+  format?: 'html' | 'text' | 'both' | 'markdown'
   timeout?: number
+  proxyImages?: boolean // Point image URLs at GET /image
+  credentials?: Credentials // Only sent to the page's own host
+  maxPages?: number // Follow a multi-page article up to this many pages
+  html?: string // The page itself, e.g. from behind a login; url is then only the base URL
 }
 
 interface ParseSuccessResponse {
@@ -31,7 +66,23 @@ interface ParseSuccessResponse {
   htmlContent?: string // Preferred field name (matches extension)
   content?: string // Alias for backwards compatibility
   textContent?: string
+  markdown?: string // With format "markdown", including YAML front matter
   image: string | null
+  publishedTime: string | null // ISO 8601
+  modifiedTime: string | null // ISO 8601
+  canonicalUrl: string
+  language: string | null
+  keywords: string[]
+  authorUrl: string | null
+  publisherLogo: string | null
+  wordCount: number
+  readingTime: number // Estimated minutes
+  siteRule: string | null // Name of the site rule applied, if any
+  encoding: string // Character encoding the page was decoded from
+  finalUrl: string
+  redirects: RedirectHop[]
+  attempts: number // Upstream requests made, counting retries; 0 when served from the cache
+  pages?: string[] // With maxPages, the URLs of the pages merged, in order
 }
 
 interface ParseErrorResponse {
@@ -44,47 +95,126 @@ interface ParseErrorResponse {
 
 type ParseResponse = ParseSuccessResponse | ParseErrorResponse
 
-function extractOgImage(document: Document, baseUrl: string): string | null {
-  // Try og:image first
-  const ogImage = document.querySelector('meta[property="og:image"]')
-  if (ogImage) {
-    const content = ogImage.getAttribute('content')
-    if (content) return resolveUrl(content, baseUrl)
+// Article extracted by Readability or by a site rule's content selectors
+interface Article {
+  title: string | null
+  byline: string | null
+  siteName: string | null
+  excerpt: string | null
+  content: string
+  textContent: string
+  length: number
+  publishedTime: string | null // From the site rule's date selectors
+}
+
+function extractDescription(document: Document): string | null {
+  for (const selector of ['meta[name="description"]', 'meta[property="og:description"]']) {
+    const content = document.querySelector(selector)?.getAttribute('content')?.trim()
+    if (content) return content
   }
+  return null
+}
 
-  // Try twitter:image
-  const twitterImage = document.querySelector('meta[name="twitter:image"]')
-  if (twitterImage) {
-    const content = twitterImage.getAttribute('content')
-    if (content) return resolveUrl(content, baseUrl)
+/**
+ * Extract the article from a page. A matching site rule strips its clutter
+ * first and, if its content selectors match, is used instead of Readability;
+ * its title, author and date selectors override what Readability finds.
+ * Returns null if the page has no article content.
+ */
+function extractArticle(document: Document, rule: SiteRule | null): Article | null {
+  const extraction = rule ? applySiteRule(document, rule) : null
+
+  if (extraction?.content) {
+    const firstParagraph = parseHTML(
+      `<!DOCTYPE html><html><body>${extraction.content}</body></html>`
+    ).document.querySelector('p')
+    return {
+      title: extraction.title || document.title.trim() || null,
+      byline: extraction.byline,
+      siteName: null,
+      excerpt:
+        extractDescription(document) || firstParagraph?.textContent?.replace(/\s+/g, ' ').trim() || null,
+      content: extraction.content,
+      textContent: extraction.textContent,
+      length: extraction.textContent.length,
+      publishedTime: extraction.publishedTime,
+    }
   }
 
-  // Try first article image
-  const articleImage = document.querySelector('article img[src]')
-  if (articleImage) {
-    const src = articleImage.getAttribute('src')
-    if (src) return resolveUrl(src, baseUrl)
+  const article = new Readability(document, {
+    charThreshold: 0, // Don't skip short articles
+  }).parse()
+  if (!article) return null
+
+  return {
+    title: extraction?.title || article.title || null,
+    byline: extraction?.byline || article.byline || null,
+    siteName: article.siteName || null,
+    excerpt: article.excerpt || null,
+    content: article.content || '',
+    textContent: article.textContent || '',
+    length: article.length || 0,
+    publishedTime: extraction?.publishedTime || null,
   }
+}
 
-  return null
+/**
+ * Fetch an HTML page through the response cache (redirects are validated
+ * hop by hop), reading it up to the size limit
+ */
+function fetchPage(
+  url: string,
+  timeout: number,
+  credentials: Record<string, string> | undefined
+): Promise<CachedFetchResult> {
+  return cachedFetch(url, {
+    method: 'GET',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; BlogsAreBack/1.0; +https://blogsareback.com)',
+      Accept: 'text/html, application/xhtml+xml, */*',
+    },
+    timeout,
+    retries: MAX_RETRIES,
+    credentials,
+    maxBytes: MAX_HTML_SIZE,
+    label: 'HTML',
+  })
 }
 
-function extractSiteName(document: Document): string | null {
-  // Try og:site_name
-  const ogSiteName = document.querySelector('meta[property="og:site_name"]')
-  if (ogSiteName) {
-    const content = ogSiteName.getAttribute('content')
-    if (content) return content
-  }
+interface ArticlePage {
+  url: string
+  content: string // Sanitized against the page's own URL
+  nextPageUrl: string | null
+}
 
-  // Try application-name
-  const appName = document.querySelector('meta[name="application-name"]')
-  if (appName) {
-    const content = appName.getAttribute('content')
-    if (content) return content
-  }
+/**
+ * Fetch and extract a later page of a multi-page article. Returns null if
+ * the page can't be fetched or has no article content, which ends the article.
+ */
+async function fetchArticlePage(
+  url: string,
+  timeout: number,
+  credentials: Record<string, string> | undefined,
+  markCode: boolean,
+  rule: SiteRule | null
+): Promise<ArticlePage | null> {
+  try {
+    const result = await fetchPage(url, timeout, credentials)
+    if (!result.response.ok) return null
+
+    const html = decodeBody(result.body, result.response.headers.get('content-type'), 'html').text
+    const document = parseHTML(html).document as unknown as Document
+    const nextPageUrl = findNextPageUrl(document, result.url)
+    if (markCode) {
+      markCodeLanguages(document)
+    }
 
-  return null
+    const article = extractArticle(document, rule)
+    if (!article?.content) return null
+    return { url: result.url, content: sanitizeHtml(article.content, result.url), nextPageUrl }
+  } catch {
+    return null
+  }
 }
 
 export default async function handler(
@@ -93,14 +223,14 @@ export default async function handler(
 ): Promise<void> {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
-    handleOptions(res)
+    handleOptions(req, res)
     return
   }
 
-  setCorsHeaders(res)
+  setCorsHeaders(req, res)
 
-  // Only allow POST
-  if (req.method !== 'POST') {
+  // Allow POST, or GET with the request in the query string (e.g. signed URLs)
+  if (req.method !== 'POST' && req.method !== 'GET') {
     res.status(405).json({
       success: false,
       error: {
@@ -112,19 +242,62 @@ export default async function handler(
   }
 
   // Validate API key if configured
-  const auth = validateAuth(req)
+  const auth = validateAuth(req, 'parse')
   if (!auth.authenticated) {
-    res.status(401).json({
+    res.status(auth.status ?? 401).json({
       ok: false,
       error: auth.error,
     })
     return
   }
 
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`,
+        },
+      })
+      return
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    res.status(429).json({
+      success: false,
+      error: {
+        code: ErrorCodes.QUOTA_EXCEEDED,
+        message: `Monthly quota of ${quota.limit} requests exceeded`,
+      },
+    })
+    return
+  }
+  startUsage(res, 'parse', auth)
+
+  // Refuse oversized bodies before reading them. Only bodies carrying html
+  // may use the larger upload limit, which is checked once the body is parsed.
+  if (!checkBodySize(req, res, Math.max(MAX_REQUEST_BODY, MAX_HTML_UPLOAD))) return
+
   // Parse request body
   let body: ParseRequest
   try {
-    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+    if (req.method === 'GET') {
+      body = {
+        url: getQueryParam(req, 'url') || '',
+        format: getQueryParam(req, 'format') as ParseRequest['format'],
+        proxyImages: getQueryParam(req, 'proxyImages') === 'true',
+        maxPages: parseInt(getQueryParam(req, 'maxPages') || '', 10) || undefined,
+      }
+    } else {
+      body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+    }
   } catch {
     res.status(400).json({
       success: false,
@@ -136,6 +309,8 @@ export default async function handler(
     return
   }
 
+  if (body?.html === undefined && !checkBodySize(req, res, MAX_REQUEST_BODY)) return
+
   // Validate required fields
   if (!body.url || typeof body.url !== 'string') {
     res.status(400).json({
@@ -160,93 +335,121 @@ export default async function handler(
 
   // Determine format
   const format = body.format || 'both'
-  if (!['html', 'text', 'both'].includes(format)) {
+  if (!['html', 'text', 'both', 'markdown'].includes(format)) {
     res.status(400).json({
       success: false,
       error: {
         code: ErrorCodes.INVALID_URL,
-        message: 'Invalid format: must be "html", "text", or "both"',
+        message: 'Invalid format: must be "html", "text", "both" or "markdown"',
       },
     })
     return
   }
 
-  // Calculate timeout
-  const timeout = Math.min(body.timeout || DEFAULT_PARSE_TIMEOUT, MAX_TIMEOUT)
+  // Opt-in credentials for paywalled or private pages
+  const credentials = body.credentials === undefined ? null : resolveCredentials(body.credentials)
+  if (credentials && !credentials.valid) {
+    res.status(400).json({
+      success: false,
+      error: credentials.error,
+    } as ParseErrorResponse)
+    return
+  }
 
-  // Fetch the page
-  let html: string
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-    const response = await fetch(body.url, {
-      method: 'GET',
-      headers: {
-        'User-Agent':
-          'Mozilla/5.0 (compatible; BlogsAreBack/1.0; +https://blogsareback.com)',
-        Accept: 'text/html, application/xhtml+xml, */*',
+  // Multi-page articles are opt-in
+  if (
+    body.maxPages !== undefined &&
+    (!Number.isInteger(body.maxPages) || body.maxPages < 1)
+  ) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Invalid maxPages: must be a positive integer',
       },
-      signal: controller.signal,
-      redirect: 'follow',
-    })
-
-    clearTimeout(timeoutId)
+    } as ParseErrorResponse)
+    return
+  }
+  const pageLimit = Math.min(body.maxPages ?? 1, MAX_PARSE_PAGES)
 
-    if (!response.ok) {
-      res.status(200).json({
+  // Supplied HTML replaces the fetch, so options that only affect fetching
+  // are rejected rather than ignored
+  if (body.html !== undefined) {
+    if (typeof body.html !== 'string') {
+      res.status(400).json({
         success: false,
         error: {
-          code: ErrorCodes.FETCH_FAILED,
-          message: `HTTP ${response.status}: ${response.statusText}`,
+          code: ErrorCodes.INVALID_URL,
+          message: 'Invalid html: must be a string',
         },
       } as ParseErrorResponse)
       return
     }
-
-    // Check content length
-    const contentLength = response.headers.get('content-length')
-    if (contentLength && parseInt(contentLength, 10) > MAX_HTML_SIZE) {
-      res.status(200).json({
+    if (credentials || pageLimit > 1) {
+      res.status(400).json({
         success: false,
         error: {
-          code: ErrorCodes.CONTENT_TOO_LARGE,
-          message: `HTML exceeds maximum size of ${MAX_HTML_SIZE / 1024 / 1024}MB`,
+          code: ErrorCodes.INVALID_URL,
+          message: 'html cannot be combined with credentials or maxPages',
         },
       } as ParseErrorResponse)
       return
     }
+  }
+
+  // Calculate timeout; it covers every page of a multi-page article
+  const timeout = Math.min(body.timeout || DEFAULT_PARSE_TIMEOUT, MAX_TIMEOUT)
+  const startedAt = Date.now()
 
-    const arrayBuffer = await response.arrayBuffer()
-    if (arrayBuffer.byteLength > MAX_HTML_SIZE) {
+  // Fetch the page, unless the caller supplied it
+  let html: string
+  let encoding: string
+  let finalUrl: string
+  let redirects: RedirectHop[]
+  let attempts: number
+  if (body.html !== undefined) {
+    html = body.html
+    encoding = 'utf-8'
+    finalUrl = new URL(body.url).href
+    redirects = []
+    attempts = 0
+  } else {
+    // A site rule may point at the article's single-page view
+    const requestRule = findSiteRule(body.url)
+    const targetUrl = requestRule ? rewriteSinglePageUrl(requestRule, body.url) : body.url
+
+    try {
+      const result = await fetchPage(targetUrl, timeout, credentials?.headers)
+      const response = result.response
+      finalUrl = result.url
+      redirects = result.redirects
+      attempts = result.attempts
+      res.setHeader('X-Cache', result.cache)
+
+      if (!response.ok) {
+        res.status(200).json({
+          success: false,
+          error: {
+            code: ErrorCodes.FETCH_FAILED,
+            message:
+              `HTTP ${response.status}: ${response.statusText}` +
+              (attempts > 1 ? ` (after ${attempts} attempts)` : ''),
+          },
+        } as ParseErrorResponse)
+        return
+      }
+
+      const decoded = decodeBody(result.body, response.headers.get('content-type'), 'html')
+      html = decoded.text
+      encoding = decoded.encoding
+    } catch (error) {
+      const { code, message } = describeFetchError(error)
       res.status(200).json({
         success: false,
-        error: {
-          code: ErrorCodes.CONTENT_TOO_LARGE,
-          message: `HTML exceeds maximum size of ${MAX_HTML_SIZE / 1024 / 1024}MB`,
-        },
+        error: { code, message: redactSecrets(message, credentials?.secrets) },
       } as ParseErrorResponse)
       return
     }
-
-    html = new TextDecoder().decode(arrayBuffer)
-  } catch (error) {
-    const isTimeout =
-      error instanceof Error &&
-      (error.name === 'AbortError' || error.message.includes('timeout'))
-
-    res.status(200).json({
-      success: false,
-      error: {
-        code: isTimeout ? ErrorCodes.TIMEOUT : ErrorCodes.FETCH_FAILED,
-        message: isTimeout
-          ? 'Request timed out'
-          : error instanceof Error
-            ? error.message
-            : 'Network error during fetch',
-      },
-    } as ParseErrorResponse)
-    return
   }
 
   // Parse HTML with linkedom
@@ -267,16 +470,18 @@ export default async function handler(
   }
 
   // Extract metadata before Readability modifies the document
-  const image = extractOgImage(document, body.url)
-  const siteName = extractSiteName(document)
+  // Relative URLs are resolved against the final URL after redirects
+  const metadata = extractMetadata(document, finalUrl)
+  let nextPageUrl = pageLimit > 1 ? findNextPageUrl(document, finalUrl) : null
+  if (format === 'markdown') {
+    markCodeLanguages(document)
+  }
 
-  // Run Readability
-  let article: ReturnType<Readability<string>['parse']>
+  // Run the site rule for the page, if any, and/or Readability
+  const siteRule = findSiteRule(finalUrl)
+  let article: Article | null
   try {
-    const reader = new Readability(document as unknown as Document, {
-      charThreshold: 0, // Don't skip short articles
-    })
-    article = reader.parse()
+    article = extractArticle(document, siteRule)
   } catch (error) {
     res.status(200).json({
       success: false,
@@ -302,26 +507,95 @@ export default async function handler(
     return
   }
 
+  // Follow the article onto later pages, within the page limit and the timeout
+  const pages = [finalUrl]
+  const pageContents = [article.content]
+  while (nextPageUrl && pages.length < pageLimit && !pages.includes(nextPageUrl)) {
+    const remaining = startedAt + timeout - Date.now()
+    if (remaining < MIN_PAGE_TIME) break
+
+    // Each page is a new fetch, so check credentials against the requested URL
+    // rather than the previous page's, which may have redirected elsewhere
+    if (credentials && !mayReceiveCredentials(new URL(body.url), new URL(nextPageUrl))) break
+
+    const page = await fetchArticlePage(
+      nextPageUrl,
+      remaining,
+      credentials?.headers,
+      format === 'markdown',
+      siteRule
+    )
+    // A redirect back to an earlier page means the article has ended
+    if (!page || pages.includes(page.url)) break
+
+    pages.push(page.url)
+    pageContents.push(page.content)
+    nextPageUrl = page.nextPageUrl
+  }
+
+  let content = article.content
+  let textContent = article.textContent
+  if (pages.length > 1) {
+    content = mergePages(pageContents, article.title)
+    textContent = (parseHTML(`<!DOCTYPE html><html><body>${content}</body></html>`).document.body
+      .textContent || '').trim()
+  }
+
+  const wordCount = countWords(textContent)
+
+  // Optionally route images through this proxy's /image endpoint
+  const rewriteImageUrl = body.proxyImages === true ? createImageUrlRewriter(req, auth) : undefined
+
   // Build response based on format
   const response: ParseSuccessResponse = {
     success: true,
-    title: article.title || null,
-    byline: article.byline || null,
-    siteName: article.siteName || siteName,
-    excerpt: article.excerpt || null,
-    length: article.length || 0,
-    image,
+    title: article.title,
+    byline: article.byline || metadata.author,
+    siteName: article.siteName || metadata.siteName,
+    excerpt: article.excerpt,
+    length: pages.length > 1 ? textContent.length : article.length,
+    image: metadata.image && rewriteImageUrl ? rewriteImageUrl(metadata.image) : metadata.image,
+    publishedTime: article.publishedTime || metadata.publishedTime,
+    modifiedTime: metadata.modifiedTime,
+    canonicalUrl: metadata.canonicalUrl,
+    language: metadata.language,
+    keywords: metadata.keywords,
+    authorUrl: metadata.authorUrl,
+    publisherLogo:
+      metadata.publisherLogo && rewriteImageUrl
+        ? rewriteImageUrl(metadata.publisherLogo)
+        : metadata.publisherLogo,
+    wordCount,
+    readingTime: readingTime(wordCount),
+    siteRule: siteRule?.name ?? null,
+    encoding,
+    finalUrl,
+    redirects,
+    attempts,
+    ...(pageLimit > 1 && { pages }),
   }
 
   if (format === 'html' || format === 'both') {
     // Sanitize HTML: strip dangerous elements/attributes, resolve relative URLs
-    const sanitizedHtml = sanitizeHtml(article.content || '', body.url)
+    const sanitizedHtml = sanitizeHtml(content, finalUrl, { rewriteImageUrl })
     response.htmlContent = sanitizedHtml // Preferred field name (matches extension)
     response.content = sanitizedHtml // Alias for backwards compatibility
   }
 
   if (format === 'text' || format === 'both') {
-    response.textContent = article.textContent || ''
+    response.textContent = textContent
+  }
+
+  if (format === 'markdown') {
+    const sanitizedHtml = sanitizeHtml(content, finalUrl, { rewriteImageUrl })
+    response.markdown =
+      frontMatter({
+        title: response.title,
+        byline: response.byline,
+        site_name: response.siteName,
+        image: response.image,
+        canonical_url: metadata.canonicalUrl,
+      }) + htmlToMarkdown(sanitizedHtml)
   }
 
   res.status(200).json(response)
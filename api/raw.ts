@@ -0,0 +1,220 @@
+// GET /raw?url=... - Stream an upstream resource back unchanged
+// For images, podcast enclosures, PDFs and favicons; supports Range requests
+// and conditional GET, and only passes through allowlisted content types
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  DEFAULT_FETCH_TIMEOUT,
+  MAX_TIMEOUT,
+  MAX_RAW_SIZE,
+  RAW_ALLOWED_TYPES,
+  ErrorCodes,
+} from '../lib/config.js'
+import { setCorsHeaders, handleOptions } from '../lib/cors.js'
+import { validateAuth } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { checkQuota, startUsage } from '../lib/usage.js'
+import { validateUrl } from '../lib/ssrf.js'
+import { getQueryParam } from '../lib/request.js'
+import { safeFetch, pipeBody, describeFetchError } from '../lib/http.js'
+import { httpStatusForError } from '../lib/errors.js'
+
+// Client request headers forwarded upstream
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range', 'if-none-match', 'if-modified-since']
+
+// Longest a stream may run, leaving headroom under the 60 s maxDuration in vercel.json
+const MAX_STREAM_DURATION = 55_000
+
+// Upstream response headers passed back to the client
+const PASSTHROUGH_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'etag',
+  'last-modified',
+  'cache-control',
+]
+
+interface RawErrorResponse {
+  success: false
+  error: {
+    code: string
+    message: string
+  }
+}
+
+function sendError(res: VercelResponse, code: string, message: string, status?: number): void {
+  res.status(status ?? httpStatusForError(code)).json({
+    success: false,
+    error: { code, message },
+  } as RawErrorResponse)
+}
+
+function isTypeAllowed(contentType: string): boolean {
+  const [type] = contentType.split('/')
+  return RAW_ALLOWED_TYPES.some((allowed) => allowed === contentType || allowed === `${type}/*`)
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    handleOptions(req, res)
+    return
+  }
+
+  setCorsHeaders(req, res)
+
+  // Only allow GET
+  if (req.method !== 'GET') {
+    sendError(res, 'METHOD_NOT_ALLOWED', 'Method not allowed', 405)
+    return
+  }
+
+  // Validate API key if configured
+  const auth = validateAuth(req, 'raw')
+  if (!auth.authenticated) {
+    res.status(auth.status ?? 401).json({
+      ok: false,
+      error: auth.error,
+    })
+    return
+  }
+
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      sendError(
+        res,
+        ErrorCodes.RATE_LIMITED,
+        `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`
+      )
+      return
+    }
+  }
+
+  // Enforce the monthly quota, then meter the rest of the request
+  const quota = await checkQuota(auth)
+  if (quota?.exceeded) {
+    sendError(res, ErrorCodes.QUOTA_EXCEEDED, `Monthly quota of ${quota.limit} requests exceeded`)
+    return
+  }
+  startUsage(res, 'raw', auth)
+
+  // Validate required fields
+  const url = getQueryParam(req, 'url')
+  if (!url) {
+    sendError(res, ErrorCodes.INVALID_URL, 'Missing required parameter: url')
+    return
+  }
+
+  // Validate URL for SSRF
+  const urlValidation = validateUrl(url)
+  if (!urlValidation.valid) {
+    sendError(res, urlValidation.error!.code, urlValidation.error!.message)
+    return
+  }
+
+  // Forward range and conditional headers; ask for the identity encoding so
+  // Content-Length and Content-Range describe the bytes we pass on
+  const requestHeaders: Record<string, string> = {
+    'User-Agent': 'BlogsAreBack/1.0 (CORS Proxy)',
+    'Accept-Encoding': 'identity',
+  }
+  for (const header of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[header]
+    if (typeof value === 'string') {
+      requestHeaders[header] = value
+    }
+  }
+
+  const timeout = Math.min(
+    parseInt(getQueryParam(req, 'timeout') || '', 10) || DEFAULT_FETCH_TIMEOUT,
+    MAX_TIMEOUT
+  )
+
+  let response: Response
+  try {
+    const result = await safeFetch(url, {
+      method: 'GET',
+      headers: requestHeaders,
+      timeout,
+      // Media players pause reading for long stretches; only an upstream stall ends the stream
+      idleTimeout: timeout,
+      maxDuration: MAX_STREAM_DURATION,
+    })
+    response = result.response
+  } catch (error) {
+    const { code, message } = describeFetchError(error)
+    sendError(res, code, message)
+    return
+  }
+
+  // Not modified, or a range the resource can't satisfy: no body to check
+  if (response.status === 304 || response.status === 416) {
+    await response.body?.cancel().catch(() => {})
+    for (const header of ['etag', 'last-modified', 'cache-control', 'content-range']) {
+      const value = response.headers.get(header)
+      if (value !== null) res.setHeader(header, value)
+    }
+    res.status(response.status).end()
+    return
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => {})
+    sendError(
+      res,
+      ErrorCodes.FETCH_FAILED,
+      `HTTP ${response.status}: ${response.statusText}`,
+      response.status >= 400 && response.status < 500 ? response.status : 502
+    )
+    return
+  }
+
+  // Only allowlisted content types; a missing type is treated as opaque bytes
+  const contentType = (response.headers.get('content-type') || 'application/octet-stream')
+    .split(';')[0]
+    .trim()
+    .toLowerCase()
+  if (!isTypeAllowed(contentType)) {
+    await response.body?.cancel().catch(() => {})
+    sendError(res, ErrorCodes.UNSUPPORTED, `Content type ${contentType} is not allowed`)
+    return
+  }
+
+  // Reject early when the server announces an oversized body
+  const contentLength = response.headers.get('content-length')
+  if (contentLength && parseInt(contentLength, 10) > MAX_RAW_SIZE) {
+    await response.body?.cancel().catch(() => {})
+    sendError(
+      res,
+      ErrorCodes.CONTENT_TOO_LARGE,
+      `Response exceeds maximum size of ${MAX_RAW_SIZE / 1024 / 1024}MB`
+    )
+    return
+  }
+
+  for (const header of PASSTHROUGH_HEADERS) {
+    const value = response.headers.get(header)
+    if (value !== null) res.setHeader(header, value)
+  }
+  // Never let the browser reinterpret proxied bytes as a document on our origin
+  res.setHeader('X-Content-Type-Options', 'nosniff')
+  res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox")
+  res.status(response.status)
+
+  try {
+    await pipeBody(response, res, MAX_RAW_SIZE)
+    res.end()
+  } catch {
+    // Headers and part of the body are already sent; cut the connection so
+    // the client sees a truncated response rather than a complete one
+    res.destroy()
+  }
+}
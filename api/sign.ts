@@ -0,0 +1,177 @@
+// POST /sign - Mint a signed, expiring URL for /fetch, /parse, /discover, /raw or /image
+// Lets clients that can't send X-API-Key (img tags, background fetches) use the proxy
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { SIGNED_URL_DEFAULT_TTL, SIGNED_URL_MAX_TTL, ErrorCodes } from '../lib/config.js'
+import { setCorsHeaders, handleOptions } from '../lib/cors.js'
+import {
+  validateAuth,
+  isSigningEnabled,
+  signUrl,
+  signedQuery,
+  SIGNABLE_ENDPOINTS,
+  type Endpoint,
+} from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import { validateUrl } from '../lib/ssrf.js'
+import { getBaseUrl, checkBodySize } from '../lib/request.js'
+
+interface SignRequest {
+  url: string
+  endpoint: Endpoint
+  ttl?: number // Seconds until the signed URL expires
+}
+
+interface SignSuccessResponse {
+  success: true
+  url: string // Ready-to-use proxy URL
+  expires: string // ISO 8601
+}
+
+interface SignErrorResponse {
+  success: false
+  error: {
+    code: string
+    message: string
+  }
+}
+
+type SignResponse = SignSuccessResponse | SignErrorResponse
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    handleOptions(req, res)
+    return
+  }
+
+  setCorsHeaders(req, res)
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: {
+        code: 'METHOD_NOT_ALLOWED',
+        message: 'Method not allowed',
+      },
+    })
+    return
+  }
+
+  // Validate API key if configured
+  const auth = validateAuth(req, 'sign')
+  if (!auth.authenticated) {
+    res.status(auth.status ?? 401).json({
+      ok: false,
+      error: auth.error,
+    })
+    return
+  }
+
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`,
+        },
+      })
+      return
+    }
+  }
+
+  if (!isSigningEnabled()) {
+    res.status(200).json({
+      success: false,
+      error: {
+        code: ErrorCodes.UNSUPPORTED,
+        message: 'Signed URLs are disabled: set BAB_SIGNING_SECRET to enable them',
+      },
+    } as SignErrorResponse)
+    return
+  }
+
+  // Refuse oversized bodies before reading them
+  if (!checkBodySize(req, res)) return
+
+  // Parse request body
+  let body: SignRequest
+  try {
+    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body
+  } catch {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Invalid request body',
+      },
+    })
+    return
+  }
+
+  // Validate required fields
+  if (!body.url || typeof body.url !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Missing required field: url',
+      },
+    })
+    return
+  }
+
+  if (!SIGNABLE_ENDPOINTS.includes(body.endpoint)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCodes.UNSUPPORTED,
+        message: `Invalid endpoint: must be one of ${SIGNABLE_ENDPOINTS.map((e) => `"${e}"`).join(', ')}`,
+      },
+    })
+    return
+  }
+
+  // A key can only sign for endpoints it could call itself
+  const targetAuth = validateAuth(req, body.endpoint)
+  if (!targetAuth.authenticated) {
+    res.status(targetAuth.status ?? 403).json({
+      ok: false,
+      error: targetAuth.error,
+    })
+    return
+  }
+
+  // Refuse to sign URLs the proxy would block anyway
+  const urlValidation = validateUrl(body.url)
+  if (!urlValidation.valid) {
+    res.status(200).json({
+      success: false,
+      error: urlValidation.error,
+    } as SignErrorResponse)
+    return
+  }
+
+  const ttl = Math.min(
+    body.ttl && body.ttl > 0 ? Math.floor(body.ttl) : SIGNED_URL_DEFAULT_TTL,
+    SIGNED_URL_MAX_TTL
+  )
+  const exp = Math.floor(Date.now() / 1000) + ttl
+  const signed = signUrl(body.endpoint, body.url, exp, auth.client)
+
+  const response: SignSuccessResponse = {
+    success: true,
+    url: `${getBaseUrl(req)}/${body.endpoint}?${signedQuery(signed)}`,
+    expires: new Date(exp * 1000).toISOString(),
+  }
+
+  res.status(200).json(response)
+}
@@ -0,0 +1,179 @@
+// GET /usage - Usage and quota report for the calling API key
+// Returns daily and monthly rollups; admin keys may query any client
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ErrorCodes } from '../lib/config.js'
+import { setCorsHeaders, handleOptions } from '../lib/cors.js'
+import { validateAuth, ALL_ENDPOINTS } from '../lib/auth.js'
+import { checkRateLimit, setRateLimitHeaders } from '../lib/ratelimit.js'
+import {
+  ANONYMOUS_CLIENT,
+  checkQuota,
+  dayPeriod,
+  getUsageStore,
+  monthPeriod,
+  readUsage,
+  type QuotaStatus,
+  type UsageSummary,
+} from '../lib/usage.js'
+
+const DEFAULT_DAYS = 7
+const MAX_DAYS = 31
+const DEFAULT_MONTHS = 1
+const MAX_MONTHS = 12
+
+interface PeriodUsage {
+  period: string
+  total: UsageSummary
+  endpoints: Record<string, UsageSummary>
+}
+
+interface UsageSuccessResponse {
+  success: true
+  client: string
+  quota: QuotaStatus | null
+  daily: PeriodUsage[]
+  monthly: PeriodUsage[]
+  clients?: string[] // Only for admin keys
+}
+
+interface UsageErrorResponse {
+  success: false
+  error: {
+    code: string
+    message: string
+  }
+}
+
+type UsageResponse = UsageSuccessResponse | UsageErrorResponse
+
+function parseCount(value: unknown, fallback: number, max: number): number {
+  const raw = Array.isArray(value) ? value[0] : value
+  const parsed = typeof raw === 'string' ? parseInt(raw, 10) : NaN
+  if (!Number.isFinite(parsed) || parsed < 1) return fallback
+  return Math.min(parsed, max)
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    handleOptions(req, res)
+    return
+  }
+
+  setCorsHeaders(req, res)
+
+  // Only allow GET
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      success: false,
+      error: {
+        code: 'METHOD_NOT_ALLOWED',
+        message: 'Method not allowed',
+      },
+    })
+    return
+  }
+
+  // Validate API key if configured
+  const auth = validateAuth(req, 'usage')
+  if (!auth.authenticated) {
+    res.status(auth.status ?? 401).json({
+      ok: false,
+      error: auth.error,
+    })
+    return
+  }
+
+  // Enforce rate limits for this API key and client IP
+  const rateLimit = await checkRateLimit(req, auth)
+  if (rateLimit) {
+    setRateLimitHeaders(res, rateLimit)
+    if (!rateLimit.allowed) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: ErrorCodes.RATE_LIMITED,
+          message: `Rate limit exceeded, retry in ${Math.max(1, rateLimit.retryAfterSeconds)} seconds`,
+        },
+      })
+      return
+    }
+  }
+
+  // Non-admin keys only see their own usage
+  const ownClient = auth.client || ANONYMOUS_CLIENT
+  const requestedClient = typeof req.query.client === 'string' ? req.query.client : ownClient
+  if (requestedClient !== ownClient && !auth.admin) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only admin keys can read usage for other clients',
+      },
+    } as UsageErrorResponse)
+    return
+  }
+
+  const days = parseCount(req.query.days, DEFAULT_DAYS, MAX_DAYS)
+  const months = parseCount(req.query.months, DEFAULT_MONTHS, MAX_MONTHS)
+
+  try {
+    const now = new Date()
+
+    const dayPeriods: string[] = []
+    for (let i = 0; i < days; i++) {
+      dayPeriods.push(dayPeriod(new Date(now.getTime() - i * 24 * 60 * 60 * 1000)))
+    }
+
+    const monthPeriods: string[] = []
+    for (let i = 0; i < months; i++) {
+      monthPeriods.push(monthPeriod(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1))))
+    }
+
+    const [daily, monthly] = await Promise.all([
+      Promise.all(
+        dayPeriods.map(async (period) => ({
+          period,
+          ...(await readUsage(`d:${period}`, requestedClient, ALL_ENDPOINTS)),
+        }))
+      ),
+      Promise.all(
+        monthPeriods.map(async (period) => ({
+          period,
+          ...(await readUsage(`m:${period}`, requestedClient, ALL_ENDPOINTS)),
+        }))
+      ),
+    ])
+
+    // Quota is reported against the key's own limit, or the default for other clients
+    const quota = await checkQuota(
+      requestedClient === ownClient ? auth : { authenticated: true, client: requestedClient }
+    )
+
+    const response: UsageSuccessResponse = {
+      success: true,
+      client: requestedClient,
+      quota,
+      daily,
+      monthly,
+    }
+
+    if (auth.admin) {
+      response.clients = await getUsageStore().listClients()
+    }
+
+    res.status(200).json(response)
+  } catch (error) {
+    res.status(200).json({
+      success: false,
+      error: {
+        code: 'USAGE_UNAVAILABLE',
+        message: error instanceof Error ? error.message : 'Could not read usage data',
+      },
+    } as UsageErrorResponse)
+  }
+}
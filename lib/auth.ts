@@ -1,8 +1,68 @@
 // API Key authentication utilities
+// Keys come from BAB_API_KEY (single legacy key), BAB_API_KEYS (JSON) and/or
+// BAB_API_KEYS_FILE (JSON file, usually with hashed keys). GET requests may
+// instead carry an HMAC-signed, expiring URL minted by POST /sign.
 
+import { createHash, createHmac } from 'node:crypto'
+import { readFileSync } from 'node:fs'
 import type { VercelRequest } from '@vercel/node'
+import { getQueryParam } from './request.js'
 
-const API_KEY = process.env.BAB_API_KEY
+export type Endpoint =
+  | 'fetch'
+  | 'parse'
+  | 'discover'
+  | 'raw'
+  | 'image'
+  | 'health'
+  | 'usage'
+  | 'sign'
+
+export const ALL_ENDPOINTS: Endpoint[] = [
+  'fetch',
+  'parse',
+  'discover',
+  'raw',
+  'image',
+  'health',
+  'usage',
+  'sign',
+]
+
+// Endpoints that take a target URL and can therefore be reached by signed URL
+export const SIGNABLE_ENDPOINTS: Endpoint[] = ['fetch', 'parse', 'discover', 'raw', 'image']
+
+const SIGNING_SECRET = process.env.BAB_SIGNING_SECRET || ''
+
+// Key entry as written in BAB_API_KEYS or the key file
+interface ApiKeyConfig {
+  name: string
+  key?: string // Plaintext key
+  hash?: string // Hex SHA-256 of the key, optionally prefixed with "sha256:"
+  endpoints?: Endpoint[] // Defaults to all endpoints
+  expires?: string // ISO 8601 date/time
+  rateLimit?: number // Requests per minute, overrides RATE_LIMIT_PER_KEY
+  monthlyQuota?: number // Requests per calendar month, overrides MONTHLY_QUOTA_PER_KEY
+  admin?: boolean // May read other clients' usage
+}
+
+interface ApiKey {
+  name: string
+  hash: string
+  endpoints: Endpoint[]
+  expiresAt: number | null
+  rateLimit: number | null
+  monthlyQuota: number | null
+  admin: boolean
+}
+
+function isLimit(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) >= 0)
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
 
 // Constant-time string comparison to prevent timing attacks
 function constantTimeCompare(a: string, b: string): boolean {
@@ -22,35 +82,255 @@ function constantTimeCompare(a: string, b: string): boolean {
   return result === 0
 }
 
+function compileKey(entry: ApiKeyConfig, source: string): ApiKey {
+  if (!entry || typeof entry.name !== 'string' || !entry.name) {
+    throw new Error(`Invalid API key entry in ${source}: missing name`)
+  }
+
+  let hash: string
+  if (typeof entry.hash === 'string') {
+    hash = entry.hash.replace(/^sha256:/i, '').toLowerCase()
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid API key hash for "${entry.name}" in ${source}`)
+    }
+  } else if (typeof entry.key === 'string' && entry.key) {
+    hash = hashKey(entry.key)
+  } else {
+    throw new Error(`API key "${entry.name}" in ${source} needs a key or hash`)
+  }
+
+  const endpoints = entry.endpoints || ALL_ENDPOINTS
+  for (const endpoint of endpoints) {
+    if (!ALL_ENDPOINTS.includes(endpoint)) {
+      throw new Error(`Unknown endpoint "${endpoint}" for API key "${entry.name}" in ${source}`)
+    }
+  }
+
+  let expiresAt: number | null = null
+  if (entry.expires) {
+    expiresAt = Date.parse(entry.expires)
+    if (Number.isNaN(expiresAt)) {
+      throw new Error(`Invalid expiry for API key "${entry.name}" in ${source}`)
+    }
+  }
+
+  if (!isLimit(entry.rateLimit)) {
+    throw new Error(`Invalid rateLimit for API key "${entry.name}" in ${source}`)
+  }
+  if (!isLimit(entry.monthlyQuota)) {
+    throw new Error(`Invalid monthlyQuota for API key "${entry.name}" in ${source}`)
+  }
+
+  return {
+    name: entry.name,
+    hash,
+    endpoints,
+    expiresAt,
+    rateLimit: entry.rateLimit ?? null,
+    monthlyQuota: entry.monthlyQuota ?? null,
+    admin: entry.admin === true,
+  }
+}
+
+function parseKeyList(json: string, source: string): ApiKey[] {
+  let entries: unknown
+  try {
+    entries = JSON.parse(json)
+  } catch {
+    throw new Error(`${source} is not valid JSON`)
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`${source} must be a JSON array of API keys`)
+  }
+  return entries.map((entry) => compileKey(entry as ApiKeyConfig, source))
+}
+
+function loadApiKeys(): ApiKey[] {
+  const keys: ApiKey[] = []
+
+  if (process.env.BAB_API_KEY) {
+    keys.push(compileKey({ name: 'default', key: process.env.BAB_API_KEY }, 'BAB_API_KEY'))
+  }
+
+  if (process.env.BAB_API_KEYS) {
+    keys.push(...parseKeyList(process.env.BAB_API_KEYS, 'BAB_API_KEYS'))
+  }
+
+  if (process.env.BAB_API_KEYS_FILE) {
+    const contents = readFileSync(process.env.BAB_API_KEYS_FILE, 'utf8')
+    keys.push(...parseKeyList(contents, 'BAB_API_KEYS_FILE'))
+  }
+
+  return keys
+}
+
+// Misconfigured keys throw here so the proxy fails closed instead of open
+const API_KEYS = loadApiKeys()
+
 export interface AuthResult {
   authenticated: boolean
   error?: string
+  status?: 401 | 403
+  client?: string // Name of the key that authenticated; unset when auth is disabled
+  rateLimit?: number | null // Per-key rate limit override, if the key sets one
+  monthlyQuota?: number | null // Per-key monthly quota override, if the key sets one
+  admin?: boolean
+}
+
+export interface SignedUrlParams {
+  url: string
+  exp: number // Unix time in seconds
+  cid?: string // Name of the key that signed the URL
+  sig: string
+}
+
+function authenticatedAs(key: ApiKey): AuthResult {
+  return {
+    authenticated: true,
+    client: key.name,
+    rateLimit: key.rateLimit,
+    monthlyQuota: key.monthlyQuota,
+    admin: key.admin,
+  }
+}
+
+function computeSignature(endpoint: Endpoint, url: string, exp: number, cid: string): string {
+  return createHmac('sha256', SIGNING_SECRET)
+    .update(`${endpoint}\n${url}\n${exp}\n${cid}`)
+    .digest('base64url')
+}
+
+export function isSigningEnabled(): boolean {
+  return SIGNING_SECRET.length > 0
+}
+
+/**
+ * Sign a target URL for one endpoint until `exp`, on behalf of `client`
+ */
+export function signUrl(
+  endpoint: Endpoint,
+  url: string,
+  exp: number,
+  client?: string
+): SignedUrlParams {
+  const cid = client || ''
+  return {
+    url,
+    exp,
+    ...(cid ? { cid } : {}),
+    sig: computeSignature(endpoint, url, exp, cid),
+  }
+}
+
+/**
+ * Query string carrying a signature, to append to the endpoint's path
+ */
+export function signedQuery(signed: SignedUrlParams): string {
+  return new URLSearchParams({
+    url: signed.url,
+    exp: String(signed.exp),
+    ...(signed.cid ? { cid: signed.cid } : {}),
+    sig: signed.sig,
+  }).toString()
+}
+
+/**
+ * Verify `?url=...&exp=...&sig=...` on a GET request. The signing key must
+ * still exist and be allowed on the endpoint, so revoking a key also revokes
+ * every URL it signed.
+ */
+function validateSignedRequest(req: VercelRequest, endpoint: Endpoint): AuthResult {
+  const invalid: AuthResult = {
+    authenticated: false,
+    error: 'Invalid or expired signature',
+    status: 401,
+  }
+
+  // Signatures only cover the query string, so a POST body could swap the target
+  if (!isSigningEnabled() || req.method !== 'GET' || !SIGNABLE_ENDPOINTS.includes(endpoint)) {
+    return invalid
+  }
+
+  const url = getQueryParam(req, 'url')
+  const exp = parseInt(getQueryParam(req, 'exp') || '', 10)
+  const cid = getQueryParam(req, 'cid') || ''
+  const sig = getQueryParam(req, 'sig') || ''
+  if (!url || !Number.isFinite(exp)) return invalid
+
+  const now = Date.now()
+  if (!constantTimeCompare(sig, computeSignature(endpoint, url, exp, cid))) return invalid
+  if (exp * 1000 <= now) return invalid
+
+  const key = API_KEYS.find(
+    (candidate) =>
+      candidate.name === cid &&
+      (candidate.expiresAt === null || candidate.expiresAt > now) &&
+      candidate.endpoints.includes(endpoint)
+  )
+  return key ? authenticatedAs(key) : invalid
 }
 
-export function validateAuth(req: VercelRequest): AuthResult {
-  // If no API key is configured, allow all requests
-  if (!API_KEY) {
+export function validateAuth(req: VercelRequest, endpoint: Endpoint): AuthResult {
+  // If no API keys are configured, allow all requests
+  if (API_KEYS.length === 0) {
     return { authenticated: true }
   }
 
   const providedKey = req.headers['x-api-key']
 
   if (!providedKey) {
+    if (getQueryParam(req, 'sig')) {
+      return validateSignedRequest(req, endpoint)
+    }
     return {
       authenticated: false,
       error: 'Invalid or missing API key',
+      status: 401,
     }
   }
 
   // Handle array case (shouldn't happen but TypeScript)
   const keyString = Array.isArray(providedKey) ? providedKey[0] : providedKey
+  const providedHash = hashKey(keyString)
 
-  if (!constantTimeCompare(keyString, API_KEY)) {
+  // Check every key so timing doesn't reveal which one matched. Several keys
+  // may match during a rotation; prefer one that is still valid for this endpoint.
+  const now = Date.now()
+  let matched: ApiKey | null = null
+  let usable: ApiKey | null = null
+  for (const key of API_KEYS) {
+    if (constantTimeCompare(providedHash, key.hash)) {
+      matched = matched || key
+      const live = key.expiresAt === null || key.expiresAt > now
+      if (!usable && live && key.endpoints.includes(endpoint)) {
+        usable = key
+      }
+    }
+  }
+
+  if (usable) {
+    return authenticatedAs(usable)
+  }
+
+  if (!matched) {
     return {
       authenticated: false,
       error: 'Invalid or missing API key',
+      status: 401,
     }
   }
 
-  return { authenticated: true }
+  if (matched.expiresAt !== null && matched.expiresAt <= now) {
+    return {
+      authenticated: false,
+      error: 'API key has expired',
+      status: 401,
+    }
+  }
+
+  return {
+    authenticated: false,
+    error: `API key is not allowed to access ${endpoint}`,
+    status: 403,
+  }
 }
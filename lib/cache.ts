@@ -0,0 +1,494 @@
+// Shared HTTP cache for upstream responses, following RFC 9111 for a shared cache:
+// freshness from Cache-Control/Expires (or a Last-Modified heuristic), conditional
+// revalidation with ETag/Last-Modified, stale-while-revalidate and stale-if-error.
+// Entries live in a pluggable store: in-memory LRU, files on disk, or Redis.
+
+import { createHash, randomBytes } from 'node:crypto'
+import { mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  CACHE_STORE,
+  CACHE_DIR,
+  CACHE_MAX_ENTRIES,
+  CACHE_MAX_SIZE,
+  CACHE_STALE_WHILE_REVALIDATE,
+  CACHE_STALE_IF_ERROR,
+  REDIS_URL,
+} from './config.js'
+import {
+  safeFetch,
+  readBody,
+  contentTooLarge,
+  type RedirectHop,
+  type SafeFetchOptions,
+  type SafeFetchResult,
+} from './http.js'
+import { getRedisClient, type RedisClient } from './redis.js'
+
+// Reported in the X-Cache header: served fresh (or revalidated) from the cache,
+// fetched from the origin, or served stale while revalidating / after an error
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE'
+
+// Cap on heuristic freshness for responses with Last-Modified but no explicit lifetime
+const HEURISTIC_MAX_SECONDS = 3600
+
+// How long entries with validators are kept for revalidation after going stale
+const REVALIDATION_WINDOW_SECONDS = 24 * 60 * 60
+
+const CACHEABLE_STATUSES = new Set([200, 203])
+const CONDITIONAL_HEADERS = ['if-none-match', 'if-modified-since']
+
+// Headers a 304 may update on the stored response
+const REVALIDATION_HEADERS = ['cache-control', 'expires', 'etag', 'last-modified', 'date', 'age']
+
+export interface CacheEntry {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: string // Base64
+  url: string // Final URL after redirects
+  redirects: RedirectHop[]
+  storedAt: number // Epoch ms
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry, ttlSeconds: number): Promise<void>
+}
+
+export interface CachedFetchOptions extends SafeFetchOptions {
+  maxBytes: number
+  label?: string // Names the content in size errors, as for readBody
+  store?: CacheStore | null // Defaults to the configured store; null bypasses the cache
+}
+
+export interface CachedFetchResult extends SafeFetchResult {
+  body: Uint8Array // Already read; `response` has no body of its own
+  cache: CacheStatus
+}
+
+// Response as fetched or stored, with the body in memory
+interface Snapshot {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: Uint8Array
+  url: string
+  redirects: RedirectHop[]
+  storedAt: number
+  attempts: number // Upstream requests behind this copy of it; 0 from the cache
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export function createMemoryCacheStore(
+  maxEntries = CACHE_MAX_ENTRIES,
+  maxBytes = CACHE_MAX_SIZE
+): CacheStore {
+  // Map iteration order doubles as recency order: oldest first
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number; size: number }>()
+  let totalSize = 0
+
+  const remove = (key: string) => {
+    const item = entries.get(key)
+    if (item) {
+      totalSize -= item.size
+      entries.delete(key)
+    }
+  }
+
+  return {
+    async get(key) {
+      const item = entries.get(key)
+      if (!item) return null
+      if (item.expiresAt <= Date.now()) {
+        remove(key)
+        return null
+      }
+      entries.delete(key)
+      entries.set(key, item)
+      return item.entry
+    },
+    async set(key, entry, ttlSeconds) {
+      const size = entry.body.length
+      if (size > maxBytes) return
+
+      remove(key)
+      entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000, size })
+      totalSize += size
+
+      while (entries.size > maxEntries || totalSize > maxBytes) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        remove(oldest)
+      }
+    },
+  }
+}
+
+export function createFileCacheStore(dir = CACHE_DIR || join(tmpdir(), 'bab-cache')): CacheStore {
+  // Keys are hex digests, so they are safe file names
+  const pathFor = (key: string) => join(dir, `${key}.json`)
+
+  return {
+    async get(key) {
+      let contents: string
+      try {
+        contents = await readFile(pathFor(key), 'utf8')
+      } catch {
+        return null
+      }
+      const { expiresAt, entry } = JSON.parse(contents) as { expiresAt: number; entry: CacheEntry }
+      if (expiresAt <= Date.now()) {
+        await unlink(pathFor(key)).catch(() => {})
+        return null
+      }
+      return entry
+    },
+    async set(key, entry, ttlSeconds) {
+      await mkdir(dir, { recursive: true })
+      // Write then rename, so readers never see a partial file
+      const temporary = join(dir, `${key}.${randomBytes(6).toString('hex')}.tmp`)
+      await writeFile(temporary, JSON.stringify({ expiresAt: Date.now() + ttlSeconds * 1000, entry }))
+      await rename(temporary, pathFor(key))
+    },
+  }
+}
+
+export function createRedisCacheStore(client: RedisClient, prefix = 'bab:cache:'): CacheStore {
+  return {
+    async get(key) {
+      const reply = await client.command(['GET', prefix + key])
+      return typeof reply === 'string' ? (JSON.parse(reply) as CacheEntry) : null
+    },
+    async set(key, entry, ttlSeconds) {
+      await client.command(['SET', prefix + key, JSON.stringify(entry), 'EX', Math.ceil(ttlSeconds)])
+    },
+  }
+}
+
+let defaultStore: CacheStore | null | undefined
+
+export function getCacheStore(): CacheStore | null {
+  if (defaultStore === undefined) {
+    switch (CACHE_STORE) {
+      case 'none':
+        defaultStore = null
+        break
+      case 'fs':
+        defaultStore = createFileCacheStore()
+        break
+      case 'redis':
+        defaultStore = createRedisCacheStore(getRedisClient(REDIS_URL))
+        break
+      default:
+        defaultStore = createMemoryCacheStore()
+    }
+  }
+  return defaultStore
+}
+
+// ============================================================================
+// Caching policy
+// ============================================================================
+
+function parseCacheControl(value: string | undefined): Map<string, string | true> {
+  const directives = new Map<string, string | true>()
+  for (const part of (value || '').split(',')) {
+    const [name, ...rest] = part.split('=')
+    const directive = name.trim().toLowerCase()
+    if (!directive) continue
+    const argument = rest.join('=').trim().replace(/^"|"$/g, '')
+    directives.set(directive, argument || true)
+  }
+  return directives
+}
+
+function seconds(value: string | true | undefined): number | null {
+  if (typeof value !== 'string') return null
+  const parsed = parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+interface Policy {
+  freshness: number // Seconds the response is fresh for, from its Date
+  staleWhileRevalidate: number
+  staleIfError: number
+}
+
+function cachePolicy(headers: Record<string, string>, storedAt: number): Policy {
+  const directives = parseCacheControl(headers['cache-control'])
+  const date = Date.parse(headers['date'] || '') || storedAt
+
+  let freshness = 0
+  const maxAge = seconds(directives.get('s-maxage')) ?? seconds(directives.get('max-age'))
+  if (directives.has('no-cache')) {
+    freshness = 0
+  } else if (maxAge !== null) {
+    freshness = maxAge
+  } else if (headers['expires']) {
+    // An invalid Expires means already expired
+    const expires = Date.parse(headers['expires'])
+    freshness = Number.isNaN(expires) ? 0 : Math.max(0, (expires - date) / 1000)
+  } else if (headers['last-modified']) {
+    const lastModified = Date.parse(headers['last-modified'])
+    if (!Number.isNaN(lastModified)) {
+      freshness = Math.min(HEURISTIC_MAX_SECONDS, Math.max(0, (date - lastModified) / 1000 / 10))
+    }
+  }
+
+  // The origin's own stale directives win; no-cache and must-revalidate forbid serving stale
+  const strict =
+    directives.has('no-cache') ||
+    directives.has('must-revalidate') ||
+    directives.has('proxy-revalidate')
+  return {
+    freshness,
+    staleWhileRevalidate: strict
+      ? 0
+      : seconds(directives.get('stale-while-revalidate')) ?? CACHE_STALE_WHILE_REVALIDATE,
+    staleIfError: strict ? 0 : seconds(directives.get('stale-if-error')) ?? CACHE_STALE_IF_ERROR,
+  }
+}
+
+function isStorable(snapshot: Snapshot): boolean {
+  if (!CACHEABLE_STATUSES.has(snapshot.status)) return false
+  const directives = parseCacheControl(snapshot.headers['cache-control'])
+  if (directives.has('no-store') || directives.has('private')) return false
+  return snapshot.headers['vary']?.trim() !== '*'
+}
+
+function hasValidators(headers: Record<string, string>): boolean {
+  return Boolean(headers['etag'] || headers['last-modified'])
+}
+
+/**
+ * Seconds since the response was generated: the Age it arrived with plus the
+ * time it has spent in the cache
+ */
+function currentAge(snapshot: Snapshot): number {
+  const initialAge = parseInt(snapshot.headers['age'] || '0', 10) || 0
+  return initialAge + (Date.now() - snapshot.storedAt) / 1000
+}
+
+function cacheKey(url: string, method: string, headers: Record<string, string>): string {
+  const normalized = new URL(url)
+  normalized.hash = ''
+  const requestHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return createHash('sha256')
+    .update(JSON.stringify([method, normalized.href, requestHeaders]))
+    .digest('hex')
+}
+
+function toEntry(snapshot: Snapshot): CacheEntry {
+  const { attempts: _attempts, ...entry } = snapshot
+  return { ...entry, body: Buffer.from(snapshot.body).toString('base64') }
+}
+
+function fromEntry(entry: CacheEntry): Snapshot {
+  return { ...entry, body: new Uint8Array(Buffer.from(entry.body, 'base64')), attempts: 0 }
+}
+
+async function storeSnapshot(store: CacheStore, key: string, snapshot: Snapshot): Promise<void> {
+  if (!isStorable(snapshot)) return
+  const policy = cachePolicy(snapshot.headers, snapshot.storedAt)
+  const keepFor =
+    policy.freshness +
+    Math.max(
+      policy.staleWhileRevalidate,
+      policy.staleIfError,
+      hasValidators(snapshot.headers) ? REVALIDATION_WINDOW_SECONDS : 0
+    )
+  if (keepFor <= 0) return
+  await store.set(key, toEntry(snapshot), keepFor)
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+async function fetchSnapshot(
+  url: string,
+  options: CachedFetchOptions,
+  headers: Record<string, string>
+): Promise<Snapshot> {
+  const { response, url: finalUrl, redirects, attempts } = await safeFetch(url, { ...options, headers })
+
+  let body: Uint8Array = new Uint8Array(0)
+  if (response.status === 304 || options.method === 'HEAD') {
+    await response.body?.cancel().catch(() => {})
+  } else {
+    body = await readBody(response, options.maxBytes, options.label)
+  }
+
+  const responseHeaders: Record<string, string> = {}
+  response.headers.forEach((value, name) => {
+    if (name !== 'set-cookie') responseHeaders[name] = value
+  })
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+    body,
+    url: finalUrl,
+    redirects,
+    storedAt: Date.now(),
+    attempts,
+  }
+}
+
+/**
+ * Does the client's own If-None-Match / If-Modified-Since match the response?
+ */
+function matchesConditional(snapshot: Snapshot, conditional: Record<string, string>): boolean {
+  const ifNoneMatch = conditional['if-none-match']
+  if (ifNoneMatch) {
+    const etag = snapshot.headers['etag']
+    if (!etag) return false
+    const weak = (tag: string) => tag.trim().replace(/^W\//, '')
+    return ifNoneMatch === '*' || ifNoneMatch.split(',').some((tag) => weak(tag) === weak(etag))
+  }
+
+  const ifModifiedSince = Date.parse(conditional['if-modified-since'] || '')
+  const lastModified = Date.parse(snapshot.headers['last-modified'] || '')
+  return !Number.isNaN(ifModifiedSince) && !Number.isNaN(lastModified) && lastModified <= ifModifiedSince
+}
+
+function toResult(
+  snapshot: Snapshot,
+  cache: CacheStatus,
+  conditional: Record<string, string>
+): CachedFetchResult {
+  const notModified = snapshot.status === 200 && matchesConditional(snapshot, conditional)
+  const headers = { ...snapshot.headers }
+  if (cache !== 'MISS') {
+    headers['age'] = String(Math.floor(currentAge(snapshot)))
+  }
+
+  return {
+    response: new Response(null, {
+      status: notModified ? 304 : snapshot.status,
+      statusText: notModified ? 'Not Modified' : snapshot.statusText,
+      headers,
+    }),
+    body: notModified ? new Uint8Array(0) : snapshot.body,
+    url: snapshot.url,
+    redirects: snapshot.redirects,
+    attempts: snapshot.attempts,
+    cache,
+  }
+}
+
+/**
+ * Revalidate a stored response with its validators. Returns the response to
+ * serve: the stored one with refreshed headers after a 304, otherwise the new one.
+ */
+async function revalidate(
+  url: string,
+  options: CachedFetchOptions,
+  headers: Record<string, string>,
+  stored: Snapshot,
+  store: CacheStore,
+  key: string
+): Promise<{ snapshot: Snapshot; fromCache: boolean }> {
+  const conditional: Record<string, string> = { ...headers }
+  if (stored.headers['etag']) conditional['If-None-Match'] = stored.headers['etag']
+  if (stored.headers['last-modified']) conditional['If-Modified-Since'] = stored.headers['last-modified']
+
+  const fetched = await fetchSnapshot(url, options, conditional)
+  if (fetched.status === 304) {
+    const refreshed: Snapshot = {
+      ...stored,
+      headers: { ...stored.headers },
+      storedAt: fetched.storedAt,
+      attempts: fetched.attempts,
+    }
+    for (const name of REVALIDATION_HEADERS) {
+      if (fetched.headers[name] !== undefined) refreshed.headers[name] = fetched.headers[name]
+      else if (name === 'age') delete refreshed.headers[name]
+    }
+    await storeSnapshot(store, key, refreshed).catch(() => {})
+    return { snapshot: refreshed, fromCache: true }
+  }
+
+  await storeSnapshot(store, key, fetched).catch(() => {})
+  return { snapshot: fetched, fromCache: false }
+}
+
+// Keys with a background revalidation in flight on this instance
+const revalidating = new Set<string>()
+
+/**
+ * Fetch through the shared cache. Only GET requests are cached. The caller's
+ * conditional headers are answered from the cache (with a 304 when they
+ * match) rather than forwarded, so a full response can be stored for others.
+ * Requests with credentials bypass the cache. Storage errors never fail the request.
+ */
+export async function cachedFetch(url: string, options: CachedFetchOptions): Promise<CachedFetchResult> {
+  const store = options.store === undefined ? getCacheStore() : options.store
+  const method = options.method || 'GET'
+
+  // Responses fetched with credentials are private to the caller
+  if (!store || method !== 'GET' || options.credentials) {
+    return toResult(await fetchSnapshot(url, options, options.headers || {}), 'MISS', {})
+  }
+
+  const conditional: Record<string, string> = {}
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (CONDITIONAL_HEADERS.includes(name.toLowerCase())) conditional[name.toLowerCase()] = value
+    else headers[name] = value
+  }
+
+  const key = cacheKey(url, method, headers)
+  const entry = await store.get(key).catch(() => null)
+
+  if (!entry) {
+    const fetched = await fetchSnapshot(url, options, headers)
+    await storeSnapshot(store, key, fetched).catch(() => {})
+    return toResult(fetched, 'MISS', conditional)
+  }
+
+  const stored = fromEntry(entry)
+  // The copy may have been stored for a caller allowing larger bodies
+  if (stored.body.byteLength > options.maxBytes) {
+    throw contentTooLarge(options.maxBytes, options.label)
+  }
+
+  const policy = cachePolicy(stored.headers, stored.storedAt)
+  const age = currentAge(stored)
+
+  if (age < policy.freshness) {
+    return toResult(stored, 'HIT', conditional)
+  }
+
+  // Serve stale and refresh in the background (best effort on serverless,
+  // where the instance may be frozen once the response is sent)
+  if (age < policy.freshness + policy.staleWhileRevalidate && hasValidators(stored.headers)) {
+    if (!revalidating.has(key)) {
+      revalidating.add(key)
+      revalidate(url, options, headers, stored, store, key)
+        .catch(() => {})
+        .finally(() => revalidating.delete(key))
+    }
+    return toResult(stored, 'STALE', conditional)
+  }
+
+  const canServeStale = age < policy.freshness + policy.staleIfError
+  try {
+    const { snapshot, fromCache } = await revalidate(url, options, headers, stored, store, key)
+    if (!fromCache && snapshot.status >= 500 && canServeStale) {
+      return toResult({ ...stored, attempts: snapshot.attempts }, 'STALE', conditional)
+    }
+    return toResult(snapshot, fromCache ? 'HIT' : 'MISS', conditional)
+  } catch (error) {
+    if (canServeStale) return toResult(stored, 'STALE', conditional)
+    throw error
+  }
+}
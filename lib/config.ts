@@ -1,12 +1,27 @@
 // Configuration constants for the proxy
 
+// Split a comma-separated environment variable into trimmed, non-empty entries
+export function parseList(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+}
+
 export const VERSION = '2.0.0'
+
+// Origin of this deployment as clients reach it, e.g. https://proxy.example.com
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '')
 export const PROVIDER = 'vercel-serverless'
 
 // Size limits in bytes
 export const MAX_RESPONSE_SIZE = parseInt(process.env.MAX_RESPONSE_SIZE_MB || '10', 10) * 1024 * 1024
 export const MAX_HTML_SIZE = parseInt(process.env.MAX_HTML_SIZE_MB || '5', 10) * 1024 * 1024
-export const MAX_REQUEST_BODY = 64 * 1024 // 64 KB
+export const MAX_REQUEST_BODY = parseInt(process.env.MAX_REQUEST_BODY_KB || '64', 10) * 1024
+export const MAX_HTML_UPLOAD = parseInt(process.env.MAX_HTML_UPLOAD_MB || '4', 10) * 1024 * 1024
+export const MAX_RAW_SIZE = parseInt(process.env.MAX_RAW_SIZE_MB || '50', 10) * 1024 * 1024
+export const MAX_IMAGE_SIZE = parseInt(process.env.MAX_IMAGE_SIZE_MB || '10', 10) * 1024 * 1024
 
 // Timeout limits in milliseconds
 export const DEFAULT_FETCH_TIMEOUT = parseInt(process.env.DEFAULT_TIMEOUT_MS || '10000', 10)
@@ -15,6 +30,71 @@ export const DEFAULT_DISCOVER_TIMEOUT = 20000
 export const MAX_TIMEOUT = parseInt(process.env.MAX_TIMEOUT_MS || '30000', 10)
 export const MAX_DISCOVER_TIMEOUT = 45000
 
+// Most pages /parse follows when stitching a multi-page article
+export const MAX_PARSE_PAGES = parseInt(process.env.MAX_PARSE_PAGES || '10', 10)
+
+// Batch fetching: feeds per request, parallel upstream fetches, and the overall
+// time budget (kept below the function's maxDuration so results can be returned)
+export const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || '100', 10)
+export const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '8', 10)
+export const BATCH_TIME_BUDGET = parseInt(process.env.BATCH_TIME_BUDGET_MS || '25000', 10)
+
+// Maximum number of redirects followed per upstream request
+export const MAX_REDIRECTS = parseInt(process.env.MAX_REDIRECTS || '5', 10)
+
+// Retries for transient upstream failures (connection errors, 429, 502-504),
+// with jittered exponential backoff between RETRY_BASE_DELAY and RETRY_MAX_DELAY ms
+export const MAX_RETRIES = parseInt(process.env.MAX_RETRIES || '2', 10)
+export const RETRY_BASE_DELAY = parseInt(process.env.RETRY_BASE_DELAY_MS || '250', 10)
+export const RETRY_MAX_DELAY = parseInt(process.env.RETRY_MAX_DELAY_MS || '4000', 10)
+
+// Operator host policy: exact hosts, *.example.com wildcards or CIDR ranges
+// An empty ALLOWED_HOSTS means any public host is allowed
+export const ALLOWED_HOSTS = parseList(process.env.ALLOWED_HOSTS)
+export const BLOCKED_HOSTS = parseList(process.env.BLOCKED_HOSTS)
+export const ALLOWED_PORTS = parseList(process.env.ALLOWED_PORTS || '80,443').map((port) =>
+  parseInt(port, 10)
+)
+
+// Content types GET /raw will pass through: exact types or "type/*" wildcards
+// HTML and SVG are left out by default since they can run script on the proxy's origin
+export const RAW_ALLOWED_TYPES = parseList(
+  process.env.RAW_ALLOWED_TYPES ||
+    'image/png,image/jpeg,image/gif,image/webp,image/avif,image/x-icon,image/vnd.microsoft.icon,' +
+      'audio/*,video/*,application/pdf,application/octet-stream'
+).map((type) => type.toLowerCase())
+
+// Image proxy: SVGs are rejected unless IMAGE_SVG_MODE is 'sanitize', and
+// images are served with a long Cache-Control lifetime (seconds)
+export const IMAGE_SVG_MODE = process.env.IMAGE_SVG_MODE === 'sanitize' ? 'sanitize' : 'reject'
+export const IMAGE_CACHE_MAX_AGE = parseInt(process.env.IMAGE_CACHE_MAX_AGE || '2592000', 10) // 30 days
+
+// Rate limiting, in requests per minute (0 disables the limit)
+export const RATE_LIMIT_PER_IP = parseInt(process.env.RATE_LIMIT_PER_IP || '0', 10)
+export const RATE_LIMIT_PER_KEY = parseInt(process.env.RATE_LIMIT_PER_KEY || '0', 10)
+
+// Shared state storage: 'memory' (single instance) or 'redis' (uses REDIS_URL)
+export const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory'
+export const REDIS_URL = process.env.REDIS_URL || 'redis://127.0.0.1:6379'
+
+// Upstream response cache: 'memory' (LRU), 'fs' (CACHE_DIR), 'redis' or 'none'
+// Stale windows apply when the origin doesn't send its own directives
+export const CACHE_STORE = process.env.CACHE_STORE || 'memory'
+export const CACHE_DIR = process.env.CACHE_DIR || ''
+export const CACHE_MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10)
+export const CACHE_MAX_SIZE = parseInt(process.env.CACHE_MAX_SIZE_MB || '50', 10) * 1024 * 1024
+export const CACHE_STALE_WHILE_REVALIDATE = parseInt(process.env.CACHE_STALE_WHILE_REVALIDATE || '60', 10)
+export const CACHE_STALE_IF_ERROR = parseInt(process.env.CACHE_STALE_IF_ERROR || '86400', 10)
+
+// Usage metering storage ('memory' or 'redis') and default monthly request
+// quota per API key (0 means unlimited)
+export const USAGE_STORE = process.env.USAGE_STORE || 'memory'
+export const MONTHLY_QUOTA_PER_KEY = parseInt(process.env.MONTHLY_QUOTA_PER_KEY || '0', 10)
+
+// Signed URL lifetime in seconds (requires BAB_SIGNING_SECRET)
+export const SIGNED_URL_DEFAULT_TTL = 3600 // 1 hour
+export const SIGNED_URL_MAX_TTL = parseInt(process.env.SIGNED_URL_MAX_TTL || '604800', 10) // 7 days
+
 // Error codes matching the API spec
 export const ErrorCodes = {
   INVALID_URL: 'INVALID_URL',
@@ -25,6 +105,9 @@ export const ErrorCodes = {
   PARSE_FAILED: 'PARSE_FAILED',
   UNSUPPORTED: 'UNSUPPORTED',
   DISCOVERY_FAILED: 'DISCOVERY_FAILED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  DEFERRED: 'DEFERRED',
 } as const
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes]
@@ -1,26 +1,105 @@
 // CORS utilities for handling cross-origin requests
+// ALLOWED_ORIGINS is a comma-separated allowlist; only a matching request
+// Origin is reflected back, so several origins can share one deployment
 
-import type { VercelResponse } from '@vercel/node'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { parseList } from './config.js'
 
-const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS || '*'
+const ALLOWED_ORIGINS = parseList(process.env.ALLOWED_ORIGINS || '*')
+// Range is for /raw media requests; the conditional headers are for /fetch
+const ALLOWED_HEADERS =
+  process.env.CORS_ALLOWED_HEADERS ||
+  'Content-Type, X-API-Key, Range, If-None-Match, If-Modified-Since'
 
-export function getCorsHeaders(): Record<string, string> {
+// Response headers browsers may read from cross-origin requests
+const EXPOSED_HEADERS = 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After, X-Cache'
+
+interface OriginPattern {
+  scheme: string // e.g. "https:", "chrome-extension:"
+  host: string // Exact host, "*" for any, or ".example.com" for subdomains
+  port: string
+}
+
+const ALLOW_ANY_ORIGIN = ALLOWED_ORIGINS.includes('*')
+
+/**
+ * Parse an allowlist entry: an exact origin (`https://example.com`), a
+ * subdomain wildcard (`https://*.example.com`) or an extension origin with
+ * a specific or wildcard ID (`chrome-extension://abc...`, `moz-extension://*`)
+ */
+function parseOriginPattern(entry: string): OriginPattern | null {
+  const match = /^([a-z][a-z0-9+.-]*:)\/\/(\*|\*\.[^/:]+|[^/:]+)(?::(\d+))?\/?$/i.exec(entry.trim())
+  if (!match) return null
+  const [, scheme, host, port = ''] = match
   return {
-    'Access-Control-Allow-Origin': ALLOWED_ORIGINS,
+    scheme: scheme.toLowerCase(),
+    host: host.startsWith('*.') ? host.slice(1).toLowerCase() : host.toLowerCase(),
+    port,
+  }
+}
+
+const ORIGIN_PATTERNS = ALLOWED_ORIGINS.filter((entry) => entry !== '*')
+  .map(parseOriginPattern)
+  .filter((pattern): pattern is OriginPattern => pattern !== null)
+
+export function isOriginAllowed(origin: string | undefined): boolean {
+  if (ALLOW_ANY_ORIGIN) return true
+  if (!origin) return false
+
+  const parsed = parseOriginPattern(origin)
+  if (!parsed || parsed.host.startsWith('.') || parsed.host === '*') return false
+
+  return ORIGIN_PATTERNS.some(
+    (pattern) =>
+      pattern.scheme === parsed.scheme &&
+      pattern.port === parsed.port &&
+      (pattern.host === '*' ||
+        pattern.host === parsed.host ||
+        (pattern.host.startsWith('.') && parsed.host.endsWith(pattern.host)))
+  )
+}
+
+function getOrigin(req: VercelRequest): string | undefined {
+  const origin = req.headers.origin
+  return Array.isArray(origin) ? origin[0] : origin
+}
+
+export function getCorsHeaders(origin: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {
     'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
     'Access-Control-Max-Age': '86400',
   }
+
+  if (ALLOW_ANY_ORIGIN) {
+    headers['Access-Control-Allow-Origin'] = '*'
+    return headers
+  }
+
+  // The response differs per Origin, so caches must key on it
+  headers['Vary'] = 'Origin'
+  if (origin && isOriginAllowed(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin
+  }
+  return headers
 }
 
-export function setCorsHeaders(res: VercelResponse): void {
-  const headers = getCorsHeaders()
+export function setCorsHeaders(req: VercelRequest, res: VercelResponse): void {
+  const headers = getCorsHeaders(getOrigin(req))
   for (const [key, value] of Object.entries(headers)) {
     res.setHeader(key, value)
   }
 }
 
-export function handleOptions(res: VercelResponse): void {
-  setCorsHeaders(res)
+export function handleOptions(req: VercelRequest, res: VercelResponse): void {
+  // Reject preflights from origins that aren't on the allowlist
+  if (!isOriginAllowed(getOrigin(req))) {
+    res.setHeader('Vary', 'Origin')
+    res.status(403).end()
+    return
+  }
+
+  setCorsHeaders(req, res)
   res.status(204).end()
 }
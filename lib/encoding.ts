@@ -0,0 +1,145 @@
+// Character encoding detection for feeds and HTML pages
+// Precedence: byte order mark, Content-Type charset, then the in-document
+// declaration (<?xml encoding> for feeds, <meta charset> for HTML)
+
+export type DocumentKind = 'xml' | 'html'
+
+export interface DecodedBody {
+  text: string
+  encoding: string // WHATWG encoding name, e.g. "utf-8", "shift_jis", "windows-1251"
+}
+
+// How far into the document to look for a declaration
+const PRESCAN_BYTES = 4096
+
+const UTF8 = 'utf-8'
+const FALLBACK_ENCODING = 'windows-1252' // What browsers assume for undeclared legacy pages
+
+/**
+ * Map a charset label to its canonical WHATWG encoding name, or null if the
+ * runtime can't decode it
+ */
+export function normalizeEncoding(label: string | null | undefined): string | null {
+  if (!label) return null
+  try {
+    return new TextDecoder(label.trim().replace(/^["']|["']$/g, '')).encoding
+  } catch {
+    return null
+  }
+}
+
+function detectBom(bytes: Uint8Array): { encoding: string; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: UTF8, length: 3 }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', length: 2 }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', length: 2 }
+  }
+  return null
+}
+
+function charsetFromContentType(contentType: string | null): string | null {
+  if (!contentType) return null
+  const match = /charset\s*=\s*("?)([^";,\s]+)\1/i.exec(contentType)
+  return match ? normalizeEncoding(match[2]) : null
+}
+
+/**
+ * Find the encoding a document declares for itself. The head is read as
+ * Latin-1, which is safe because declarations are plain ASCII in every
+ * ASCII-compatible encoding.
+ */
+function declaredEncoding(bytes: Uint8Array, kind: DocumentKind): string | null {
+  const head = Buffer.from(bytes.subarray(0, PRESCAN_BYTES)).toString('latin1')
+
+  // XHTML pages may carry an XML declaration too
+  const xmlDeclaration = /^\s*<\?xml[^>]*?\sencoding\s*=\s*["']([A-Za-z0-9._:-]+)["']/.exec(head)
+  if (xmlDeclaration) {
+    return normalizeEncoding(xmlDeclaration[1])
+  }
+
+  if (kind === 'html') {
+    // Covers both <meta charset="..."> and <meta http-equiv="Content-Type" content="...; charset=...">
+    const meta = /<meta\b[^>]*?charset\s*=\s*["']?\s*([A-Za-z0-9._:-]+)/i.exec(head)
+    if (meta) {
+      const encoding = normalizeEncoding(meta[1])
+      // A meta tag can't meaningfully declare UTF-16: the bytes it was read from weren't
+      return encoding?.startsWith('utf-16') ? UTF8 : encoding
+    }
+  }
+
+  return null
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder(UTF8, { fatal: true }).decode(bytes)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function hasNonAscii(bytes: Uint8Array): boolean {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] > 0x7f) return true
+  }
+  return false
+}
+
+/**
+ * Pick the encoding for a body. When the header and the document disagree,
+ * bytes that are valid (non-ASCII) UTF-8 settle it in favour of whichever side
+ * says UTF-8; otherwise the header wins, as HTTP specifies. A UTF-8 claim
+ * that the bytes contradict is ignored.
+ */
+export function detectEncoding(
+  bytes: Uint8Array,
+  contentType: string | null,
+  kind: DocumentKind
+): string {
+  const bom = detectBom(bytes)
+  if (bom) return bom.encoding
+
+  const fromHeader = charsetFromContentType(contentType)
+  const fromDocument = declaredEncoding(bytes, kind)
+
+  let utf8Checked: boolean | null = null
+  const looksUtf8 = () => {
+    if (utf8Checked === null) utf8Checked = isValidUtf8(bytes)
+    return utf8Checked
+  }
+
+  const candidates = [fromHeader, fromDocument].filter(
+    (encoding): encoding is string => encoding !== null && (encoding !== UTF8 || looksUtf8())
+  )
+
+  if (candidates.length === 2 && candidates[0] !== candidates[1]) {
+    if (candidates.includes(UTF8) && hasNonAscii(bytes)) return UTF8
+    return candidates[0]
+  }
+  if (candidates.length > 0) return candidates[0]
+
+  // Nothing usable declared: UTF-8 if the bytes allow it, else the legacy default
+  return looksUtf8() ? UTF8 : FALLBACK_ENCODING
+}
+
+/**
+ * Decode a feed or HTML body using the detected encoding
+ */
+export function decodeBody(
+  bytes: Uint8Array,
+  contentType: string | null,
+  kind: DocumentKind
+): DecodedBody {
+  const encoding = detectEncoding(bytes, contentType, kind)
+  const bom = detectBom(bytes)
+  const content = bom && bom.encoding === encoding ? bytes.subarray(bom.length) : bytes
+  return {
+    text: new TextDecoder(encoding).decode(content),
+    encoding,
+  }
+}
@@ -0,0 +1,31 @@
+// Error type used to carry an API error code out of shared fetch/parse helpers
+
+import { ErrorCodes, type ErrorCode } from './config.js'
+
+export class ProxyError extends Error {
+  readonly code: ErrorCode
+
+  constructor(code: ErrorCode, message: string) {
+    super(message)
+    this.name = 'ProxyError'
+    this.code = code
+  }
+}
+
+// HTTP status for each error code, for endpoints that answer with the
+// resource itself (/raw, /image): their clients only see the status, so a
+// 200 with an error body would be mistaken for content
+const ERROR_STATUSES: Record<string, number> = {
+  [ErrorCodes.INVALID_URL]: 400,
+  [ErrorCodes.BLOCKED_URL]: 403,
+  [ErrorCodes.CONTENT_TOO_LARGE]: 413,
+  [ErrorCodes.UNSUPPORTED]: 415,
+  [ErrorCodes.RATE_LIMITED]: 429,
+  [ErrorCodes.QUOTA_EXCEEDED]: 429,
+  [ErrorCodes.TIMEOUT]: 504,
+  [ErrorCodes.FETCH_FAILED]: 502,
+}
+
+export function httpStatusForError(code: string): number {
+  return ERROR_STATUSES[code] ?? 502
+}
@@ -0,0 +1,305 @@
+// Feed normalization - turns RSS 0.9x/1.0 (RDF)/2.0 and Atom documents into one
+// JSON shape, so clients don't each need their own parser and quirk handling
+
+import { createHash } from 'node:crypto'
+import Parser from 'rss-parser'
+import { resolveUrl } from './sanitize.js'
+
+export type FeedType = 'rss' | 'atom' | 'rdf'
+
+export interface FeedEnclosure {
+  url: string
+  type: string | null
+  length: number | null
+}
+
+export interface FeedItem {
+  guid: string
+  title: string | null
+  link: string | null
+  published: string | null // ISO-8601
+  updated: string | null // ISO-8601
+  authors: string[]
+  content: string | null
+  summary: string | null
+  enclosures: FeedEnclosure[]
+  categories: string[]
+}
+
+export interface NormalizedFeed {
+  type: FeedType
+  title: string | null
+  link: string | null
+  description: string | null
+  language: string | null
+  image: string | null
+  updated: string | null // ISO-8601
+  authors: string[]
+  items: FeedItem[]
+}
+
+// xml2js nodes: plain text, or an object with text in `_` and attributes in `$`
+type XmlNode = string | { _?: string; $?: Record<string, string>; [child: string]: unknown }
+
+interface RawFeed {
+  rawAuthors?: XmlNode[]
+  updated?: string
+  language?: string
+}
+
+interface RawItem {
+  id?: string
+  description?: string
+  updated?: string
+  'content:encoded'?: string
+  rawLinks?: XmlNode[]
+  rawAuthors?: XmlNode[]
+  rawCreators?: XmlNode[]
+  rawEnclosures?: XmlNode[]
+  rawMedia?: XmlNode[]
+  rawCategories?: XmlNode[]
+  rawSubjects?: XmlNode[]
+  'rdf:about'?: string
+}
+
+// A field to copy as is, or an [element, field, options] tuple. rss-parser
+// takes tuples for feed fields too, though its typings only allow them on items
+type CustomField<T> = keyof T | [string, keyof T, { keepArray: boolean }?]
+
+interface CustomFields {
+  feed: CustomField<RawFeed>[]
+  item: CustomField<RawItem>[]
+}
+
+// Raw element lists kept alongside rss-parser's own fields, which only keep the first of each
+const customFields: CustomFields = {
+  feed: [['author', 'rawAuthors', { keepArray: true }], 'updated', 'language'],
+  item: [
+    'id',
+    'description',
+    'updated',
+    ['link', 'rawLinks', { keepArray: true }],
+    ['author', 'rawAuthors', { keepArray: true }],
+    ['dc:creator', 'rawCreators', { keepArray: true }],
+    ['enclosure', 'rawEnclosures', { keepArray: true }],
+    ['media:content', 'rawMedia', { keepArray: true }],
+    ['category', 'rawCategories', { keepArray: true }],
+    ['dc:subject', 'rawSubjects', { keepArray: true }],
+  ],
+}
+
+const parser = new Parser<RawFeed, RawItem>({
+  customFields: customFields as Parser.CustomFields<RawFeed, RawItem>,
+})
+
+function detectFeedType(xml: string): FeedType {
+  const head = xml.slice(0, 4096)
+  if (/<(?:\w+:)?feed[\s>]/.test(head)) return 'atom'
+  if (/<rdf:RDF[\s>]/.test(head)) return 'rdf'
+  return 'rss'
+}
+
+function textOf(node: unknown): string | null {
+  if (typeof node === 'string') return node.trim() || null
+  if (node && typeof node === 'object' && typeof (node as { _?: unknown })._ === 'string') {
+    return ((node as { _: string })._).trim() || null
+  }
+  return null
+}
+
+function attrsOf(node: unknown): Record<string, string> {
+  if (node && typeof node === 'object') {
+    return (node as { $?: Record<string, string> }).$ || {}
+  }
+  return {}
+}
+
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const time = Date.parse(value.trim())
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+function resolveLink(url: string | null | undefined, baseUrl: string): string | null {
+  const trimmed = url?.trim()
+  return trimmed ? resolveUrl(trimmed, baseUrl) : null
+}
+
+function unique(values: (string | null)[]): string[] {
+  return Array.from(new Set(values.filter((value): value is string => !!value)))
+}
+
+/**
+ * Atom authors are `<author><name>` elements; RSS uses plain text
+ * (`author`, usually an email, or `dc:creator`)
+ */
+function extractAuthors(nodes: XmlNode[] | undefined): (string | null)[] {
+  return (nodes || []).map((node) => {
+    if (node && typeof node === 'object' && Array.isArray(node.name)) {
+      return textOf(node.name[0])
+    }
+    return textOf(node)
+  })
+}
+
+function extractCategories(nodes: XmlNode[] | undefined): (string | null)[] {
+  return (nodes || []).map((node) => {
+    const attrs = attrsOf(node)
+    return attrs.label?.trim() || attrs.term?.trim() || textOf(node) // Atom: label/term attributes
+  })
+}
+
+function extractEnclosures(item: RawItem, baseUrl: string): FeedEnclosure[] {
+  const candidates = [
+    ...(item.rawEnclosures || []).map((node) => {
+      const attrs = attrsOf(node)
+      return { url: attrs.url, type: attrs.type, length: attrs.length }
+    }),
+    ...(item.rawMedia || []).map((node) => {
+      const attrs = attrsOf(node)
+      return { url: attrs.url, type: attrs.type, length: attrs.fileSize }
+    }),
+    ...(item.rawLinks || [])
+      .map(attrsOf)
+      .filter((attrs) => attrs.rel === 'enclosure')
+      .map((attrs) => ({ url: attrs.href, type: attrs.type, length: attrs.length })),
+  ]
+
+  const enclosures = new Map<string, FeedEnclosure>()
+  for (const candidate of candidates) {
+    const url = resolveLink(candidate.url, baseUrl)
+    if (!url || enclosures.has(url)) continue
+    const length = candidate.length ? parseInt(candidate.length, 10) : NaN
+    enclosures.set(url, {
+      url,
+      type: candidate.type || null,
+      length: Number.isFinite(length) && length >= 0 ? length : null,
+    })
+  }
+  return Array.from(enclosures.values())
+}
+
+/**
+ * Pick a stable identifier: the guid/id, then the RDF about URI, then the
+ * link, and as a last resort a hash of the title, date and content
+ */
+function itemGuid(
+  item: Parser.Item & RawItem,
+  link: string | null,
+  published: string | null
+): string {
+  const guid = textOf(item.guid) || textOf(item.id) || textOf(item['rdf:about'])
+  if (guid) return guid
+  if (link) return link
+  return createHash('sha256')
+    .update(`${item.title || ''}\n${published || ''}\n${item.content || ''}`)
+    .digest('hex')
+}
+
+function normalizeItem(
+  item: Parser.Item & RawItem,
+  type: FeedType,
+  baseUrl: string,
+  feedAuthors: string[]
+): FeedItem {
+  const link = resolveLink(item.link, baseUrl)
+  const published = toIsoDate(item.isoDate || item.pubDate)
+
+  // rss-parser stores the RSS description in `content`; content:encoded is the full post
+  const contentEncoded = textOf(item['content:encoded'])
+  let content: string | null
+  let summary: string | null
+  if (type === 'atom') {
+    content = item.content || null
+    summary = item.summary || null
+  } else {
+    content = contentEncoded || item.content || null
+    summary = textOf(item.description) || item.summary || null
+  }
+
+  const authors = unique([
+    ...extractAuthors(item.rawAuthors),
+    ...extractAuthors(item.rawCreators),
+  ])
+
+  return {
+    guid: itemGuid(item, link, published),
+    title: textOf(item.title),
+    link,
+    published,
+    updated: toIsoDate(textOf(item.updated)),
+    // Atom entries without an author inherit the feed's
+    authors: authors.length > 0 ? authors : feedAuthors,
+    content,
+    summary,
+    enclosures: extractEnclosures(item, baseUrl),
+    categories: unique([
+      ...extractCategories(item.rawCategories),
+      ...extractCategories(item.rawSubjects),
+    ]),
+  }
+}
+
+/**
+ * Parse a feed document into the normalized shape. Relative URLs are
+ * resolved against `baseUrl` (the URL the feed was fetched from) and items
+ * sharing a guid are collapsed, keeping the first occurrence.
+ * Throws if the document isn't a recognizable feed.
+ */
+export async function parseFeedDocument(xml: string, baseUrl: string): Promise<NormalizedFeed> {
+  const type = detectFeedType(xml)
+  const feed = await parser.parseString(xml)
+  const feedAuthors = unique([...extractAuthors(feed.rawAuthors), textOf(feed.itunes?.author)])
+
+  const items: FeedItem[] = []
+  const seen = new Set<string>()
+  for (const rawItem of feed.items || []) {
+    const item = normalizeItem(rawItem, type, baseUrl, feedAuthors)
+    if (seen.has(item.guid)) continue
+    seen.add(item.guid)
+    items.push(item)
+  }
+
+  return {
+    type,
+    title: textOf(feed.title),
+    link: resolveLink(feed.link, baseUrl),
+    description: textOf(feed.description),
+    language: textOf(feed.language),
+    image: resolveLink(feed.image?.url, baseUrl),
+    updated: toIsoDate(textOf(feed.updated) || (feed as { lastBuildDate?: string }).lastBuildDate),
+    authors: feedAuthors,
+    items,
+  }
+}
+
+/**
+ * Hash of a feed's content, leaving out the feed-level build date that many
+ * feeds bump on every request even when nothing else changed
+ */
+export function feedContentHash(feed: NormalizedFeed): string {
+  const { updated: _updated, ...content } = feed
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex')
+}
+
+/**
+ * Pick the items a client hasn't seen: those updated (or published) after
+ * `since`, and those whose guid isn't in `knownGuids`. Undated items are
+ * judged by guid alone, so they are always returned when only `since` is given.
+ * With `knownGuids` alone, a known item is dropped even if it was edited;
+ * pass `since` too for edited items to come back.
+ */
+export function selectNewItems(
+  items: FeedItem[],
+  knownGuids: string[] | undefined,
+  since: number | null
+): FeedItem[] {
+  const known = new Set(knownGuids || [])
+  return items.filter((item) => {
+    const changedAt = Date.parse(item.updated || item.published || '')
+    if (since !== null && !Number.isNaN(changedAt)) {
+      return changedAt > since || (knownGuids !== undefined && !known.has(item.guid))
+    }
+    return !known.has(item.guid)
+  })
+}
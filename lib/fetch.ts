@@ -0,0 +1,349 @@
+// Feed fetching shared by POST /fetch and POST /fetch/batch
+// Validates the target, fetches it through the SSRF-safe client and builds the
+// same success/error payload for a single feed
+
+import {
+  MAX_RESPONSE_SIZE,
+  MAX_RETRIES,
+  HEADERS_TO_EXTRACT,
+  ALLOWED_FORWARD_HEADERS,
+  ErrorCodes,
+} from './config.js'
+import { validateUrl } from './ssrf.js'
+import { describeFetchError, type RedirectHop } from './http.js'
+import { cachedFetch, type CacheStatus } from './cache.js'
+import { resolveCredentials, redactSecrets, type Credentials } from './credentials.js'
+import { decodeBody } from './encoding.js'
+import {
+  parseFeedDocument,
+  feedContentHash,
+  selectNewItems,
+  type NormalizedFeed,
+} from './feed.js'
+
+export type FetchFormat = 'raw' | 'parsed'
+
+export const FETCH_FORMATS: FetchFormat[] = ['raw', 'parsed']
+
+// What a subscriber should do about the feed URL: update it (moved), drop it
+// (gone), or look for the real feed (the URL now serves a web page)
+export type FeedClassification = 'FEED_MOVED' | 'FEED_GONE' | 'NOT_A_FEED'
+
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308])
+
+// An HTML document, allowing leading whitespace, comments and a doctype
+const HTML_PATTERN = /^\s*(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html|head|body)[\s>]/i
+const FEED_ROOT_PATTERN = /<(rss|feed|rdf:RDF)[\s>]/i
+
+export interface FetchRequest {
+  url: string
+  headers?: Record<string, string>
+  timeout?: number
+  format?: FetchFormat
+  credentials?: Credentials // Only sent to the feed's own host
+  // Delta options, format "parsed" only
+  knownGuids?: string[] // Leave out items with these guids
+  since?: string // Leave out items not updated after this date
+  hash?: string // Content hash from an earlier response; unchanged means 304
+}
+
+export interface FetchSuccessResponse {
+  success: true
+  status: number
+  headers: Record<string, string>
+  body: string | null
+  feed?: NormalizedFeed | null // Only with format "parsed"; replaces body
+  hash?: string // Content hash of the parsed feed
+  omitted?: number // Items left out by knownGuids/since
+  encoding?: string // Character encoding the body was decoded from
+  finalUrl: string
+  redirects: RedirectHop[]
+  permanentRedirect: boolean // Every redirect followed was a 301 or 308
+  classification: FeedClassification | null
+  attempts: number // Upstream requests made, counting retries; 0 when served from the cache
+  cache: CacheStatus
+}
+
+export interface FetchErrorResponse {
+  success: false
+  error: {
+    code: string
+    message: string
+    status?: number | null
+  }
+}
+
+export type FetchResponse = FetchSuccessResponse | FetchErrorResponse
+
+/**
+ * A subscription should follow a redirect chain only if every hop was permanent
+ */
+function isPermanentRedirect(redirects: RedirectHop[]): boolean {
+  return redirects.length > 0 && redirects.every((hop) => PERMANENT_REDIRECT_STATUSES.has(hop.status))
+}
+
+/**
+ * Detect a web page served where a feed was expected, e.g. a feed URL that
+ * now lands on the site's homepage. Some servers label feeds text/html, so
+ * the content type alone only counts when no feed root element appears.
+ */
+export function looksLikeHtml(contentType: string | null, text: string): boolean {
+  const head = text.slice(0, 2048)
+  if (HTML_PATTERN.test(head.replace(/^\uFEFF/, ''))) return true
+  return Boolean(contentType?.includes('html')) && !FEED_ROOT_PATTERN.test(head)
+}
+
+/**
+ * A redirect only counts as a move when the new URL works: a 304, or a 2xx
+ * that holds a feed. A permanent redirect to an error page is reported by
+ * its status instead, so clients don't repoint subscriptions at a dead URL.
+ */
+export function classifyFeed(
+  status: number,
+  permanentRedirect: boolean,
+  html: boolean,
+  isFeed: boolean
+): FeedClassification | null {
+  if (status === 410) return 'FEED_GONE'
+  if (html) return 'NOT_A_FEED'
+  if (permanentRedirect && (status === 304 || (status >= 200 && status < 300 && isFeed))) {
+    return 'FEED_MOVED'
+  }
+  return null
+}
+
+/**
+ * Check the delta options; returns an error message, or null if they're usable
+ */
+function validateDelta(request: FetchRequest, format: FetchFormat): string | null {
+  const { knownGuids, since, hash } = request
+  if (knownGuids === undefined && since === undefined && hash === undefined) return null
+  if (format !== 'parsed') {
+    return 'knownGuids, since and hash need format "parsed"'
+  }
+  if (
+    knownGuids !== undefined &&
+    (!Array.isArray(knownGuids) || !knownGuids.every((guid) => typeof guid === 'string'))
+  ) {
+    return 'knownGuids must be an array of strings'
+  }
+  if (since !== undefined && (typeof since !== 'string' || Number.isNaN(Date.parse(since)))) {
+    return 'since must be an ISO-8601 date'
+  }
+  if (hash !== undefined && typeof hash !== 'string') {
+    return 'hash must be a string'
+  }
+  return null
+}
+
+function extractHeaders(
+  responseHeaders: Headers,
+  headersToExtract: string[]
+): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const header of headersToExtract) {
+    const value = responseHeaders.get(header)
+    if (value !== null) {
+      result[header] = value
+    }
+  }
+  return result
+}
+
+function filterForwardHeaders(
+  clientHeaders: Record<string, string> | undefined
+): Record<string, string> {
+  if (!clientHeaders || typeof clientHeaders !== 'object') return {}
+
+  const result: Record<string, string> = {}
+  for (const [key, value] of Object.entries(clientHeaders)) {
+    if (ALLOWED_FORWARD_HEADERS.includes(key.toLowerCase()) && typeof value === 'string') {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * Fetch one feed. Never throws: every failure is reported as a
+ * FetchErrorResponse. `timeout` covers the whole request, redirects included.
+ */
+export async function fetchFeed(request: FetchRequest, timeout: number): Promise<FetchResponse> {
+  const format = request.format || 'raw'
+
+  // Validate URL for SSRF
+  const urlValidation = validateUrl(request.url)
+  if (!urlValidation.valid) {
+    return {
+      success: false,
+      error: urlValidation.error!,
+    }
+  }
+
+  const deltaError = validateDelta(request, format)
+  if (deltaError) {
+    return {
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: deltaError,
+      },
+    }
+  }
+
+  // Opt-in credentials for private feeds
+  let credentials: Record<string, string> | undefined
+  let secrets: string[] | undefined
+  if (request.credentials !== undefined) {
+    const resolved = resolveCredentials(request.credentials)
+    if (!resolved.valid) {
+      return {
+        success: false,
+        error: resolved.error!,
+      }
+    }
+    credentials = resolved.headers
+    secrets = resolved.secrets
+  }
+
+  // Build request headers
+  const requestHeaders: Record<string, string> = {
+    'User-Agent': 'BlogsAreBack/1.0 (CORS Proxy)',
+    Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
+    ...filterForwardHeaders(request.headers),
+  }
+
+  // Fetch the feed through the response cache (redirects are validated hop
+  // by hop), reading the body up to the size limit
+  let response: Response
+  let bytes: Uint8Array
+  let finalUrl: string
+  let redirects: RedirectHop[]
+  let attempts: number
+  let cache: CacheStatus
+  try {
+    const result = await cachedFetch(request.url, {
+      method: 'GET',
+      headers: requestHeaders,
+      timeout,
+      retries: MAX_RETRIES,
+      credentials,
+      maxBytes: MAX_RESPONSE_SIZE,
+    })
+    response = result.response
+    bytes = result.body
+    finalUrl = result.url
+    redirects = result.redirects
+    attempts = result.attempts
+    cache = result.cache
+  } catch (error) {
+    const { code, message } = describeFetchError(error)
+    return {
+      success: false,
+      error: {
+        code,
+        message: redactSecrets(message, secrets),
+        status: null,
+      },
+    }
+  }
+
+  const permanentRedirect = isPermanentRedirect(redirects)
+
+  // Handle 304 Not Modified
+  if (response.status === 304) {
+    return {
+      success: true,
+      status: 304,
+      headers: extractHeaders(response.headers, HEADERS_TO_EXTRACT),
+      body: null,
+      ...(format === 'parsed' && { feed: null }),
+      finalUrl,
+      redirects,
+      permanentRedirect,
+      classification: classifyFeed(304, permanentRedirect, false, true),
+      attempts,
+      cache,
+    }
+  }
+
+  const contentType = response.headers.get('content-type')
+  const decoded = decodeBody(bytes, contentType, contentType?.includes('html') ? 'html' : 'xml')
+  const responseBody = decoded.text
+  const html = response.ok && looksLikeHtml(contentType, responseBody)
+
+  // Normalize the feed if requested; error pages and web pages aren't parsed
+  let feed: NormalizedFeed | null = null
+  if (format === 'parsed' && response.ok && !html) {
+    try {
+      feed = await parseFeedDocument(responseBody, finalUrl)
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: ErrorCodes.PARSE_FAILED,
+          message: redactSecrets(
+            `Could not parse feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            secrets
+          ),
+          status: response.status,
+        },
+      }
+    }
+  }
+
+  // Raw bodies aren't parsed, so a feed root element is taken as a feed
+  const isFeed =
+    format === 'parsed' ? feed !== null : !html && FEED_ROOT_PATTERN.test(responseBody.slice(0, 2048))
+  const classification = classifyFeed(response.status, permanentRedirect, html, isFeed)
+
+  // Deltas: report unchanged content as not modified, even if the origin
+  // answered 200, and otherwise send only the items the client hasn't seen
+  let hash: string | undefined
+  let omitted: number | undefined
+  if (feed) {
+    hash = feedContentHash(feed)
+    if (request.hash === hash) {
+      return {
+        success: true,
+        status: 304,
+        headers: extractHeaders(response.headers, HEADERS_TO_EXTRACT),
+        body: null,
+        feed: null,
+        hash,
+        finalUrl,
+        redirects,
+        permanentRedirect,
+        classification,
+        attempts,
+        cache,
+      }
+    }
+    if (request.knownGuids !== undefined || request.since !== undefined) {
+      const items = selectNewItems(
+        feed.items,
+        request.knownGuids,
+        request.since !== undefined ? Date.parse(request.since) : null
+      )
+      omitted = feed.items.length - items.length
+      feed = { ...feed, items }
+    }
+  }
+
+  return {
+    success: true,
+    status: response.status,
+    headers: extractHeaders(response.headers, HEADERS_TO_EXTRACT),
+    body: format === 'parsed' ? null : responseBody,
+    ...(format === 'parsed' && { feed }),
+    ...(hash !== undefined && { hash }),
+    ...(omitted !== undefined && { omitted }),
+    encoding: decoded.encoding,
+    finalUrl,
+    redirects,
+    permanentRedirect,
+    classification,
+    attempts,
+    cache,
+  }
+}
@@ -0,0 +1,485 @@
+// SSRF-safe HTTP client
+// Follows redirects manually so that every hop is validated before it is requested,
+// and pins each connection to the IP address that passed validation
+
+import type { Writable } from 'node:stream'
+import { Agent, fetch as undiciFetch } from 'undici'
+import {
+  ErrorCodes,
+  MAX_REDIRECTS,
+  RETRY_BASE_DELAY,
+  RETRY_MAX_DELAY,
+  type ErrorCode,
+} from './config.js'
+import { ProxyError } from './errors.js'
+import { mayReceiveCredentials } from './credentials.js'
+import { recordUpstream } from './usage.js'
+import {
+  validateUrl,
+  resolveHost,
+  defaultResolver,
+  type ResolvedAddress,
+  type Resolver,
+} from './ssrf.js'
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+
+// Rate limited or a transient gateway failure: worth another try
+const RETRY_STATUSES = new Set([429, 502, 503, 504])
+
+export interface RedirectHop {
+  url: string
+  status: number
+}
+
+export interface SafeFetchOptions {
+  method?: 'GET' | 'HEAD'
+  headers?: Record<string, string>
+  timeout: number
+  maxRedirects?: number
+  retries?: number // Extra attempts after a transient failure; defaults to none
+  credentials?: Record<string, string> // Headers only sent to the original host
+  resolver?: Resolver
+  // For bodies streamed to a client: once headers arrive, the body is only cut
+  // off when upstream sends nothing for `idleTimeout` ms, or after `maxDuration`
+  // ms in total, instead of when `timeout` runs out
+  idleTimeout?: number
+  maxDuration?: number
+}
+
+export interface SafeFetchResult {
+  response: Response
+  url: string // Final URL after all redirects
+  redirects: RedirectHop[] // Every URL that answered with a redirect, in order
+  attempts: number // Requests made, counting retries but not redirect hops
+}
+
+/**
+ * Build the error for a URL that failed validation. Rejected redirect
+ * targets are reported as BLOCKED_URL and name the hop.
+ */
+function hopError(
+  url: string,
+  hop: number,
+  error: { code: ErrorCode; message: string } | undefined
+): ProxyError {
+  const reason = error?.message || 'URL is not allowed'
+  if (hop === 0) {
+    return new ProxyError(error?.code || ErrorCodes.BLOCKED_URL, reason)
+  }
+  if (error?.code === ErrorCodes.FETCH_FAILED) {
+    return new ProxyError(ErrorCodes.FETCH_FAILED, `Redirect hop ${hop} to ${url} failed: ${reason}`)
+  }
+  return new ProxyError(ErrorCodes.BLOCKED_URL, `Redirect hop ${hop} to ${url} blocked: ${reason}`)
+}
+
+/**
+ * Create a dispatcher whose DNS lookup always returns the vetted address,
+ * so the socket connects to exactly the IP that passed the SSRF check.
+ * TLS still verifies the certificate against the original hostname.
+ */
+function createPinnedAgent(pinned: ResolvedAddress): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [pinned])
+        } else {
+          callback(null, pinned.address, pinned.family)
+        }
+      },
+    },
+  })
+}
+
+/**
+ * undici reports network failures (refused, reset, TLS) as "fetch failed"
+ * with the underlying error as its cause
+ */
+function isConnectionError(error: unknown): boolean {
+  return error instanceof TypeError && error.cause !== undefined
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or an HTTP date), in ms
+ */
+function retryAfterDelay(response: Response): number | null {
+  const value = response.headers.get('retry-after')?.trim()
+  if (!value) return null
+  if (/^\d+$/.test(value)) return parseInt(value, 10) * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Exponential backoff with full jitter, so retries from many clients spread out
+ */
+function backoffDelay(retry: number): number {
+  return Math.random() * Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** retry)
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    // Remove the listener when the wait ends, so retries don't pile them up
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Statuses whose responses can't carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+// Timer running only while a body read is waiting on upstream
+interface IdleTimer {
+  arm(): void
+  disarm(): void
+}
+
+/**
+ * Call `release` once the response body has been read to the end, failed or
+ * been cancelled, by handing back a response whose body wraps the original.
+ * `idle` is armed during each read, so time spent waiting on a slow consumer
+ * doesn't count as upstream idling.
+ */
+function releaseAfterBody(response: Response, release: () => void, idle?: IdleTimer): Response {
+  if (!response.body || NULL_BODY_STATUSES.has(response.status)) {
+    release()
+    return response
+  }
+
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        idle?.arm()
+        const { done, value } = await reader.read()
+        idle?.disarm()
+        if (done) {
+          release()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        release()
+        controller.error(error)
+      }
+    },
+    async cancel(reason) {
+      release()
+      await reader.cancel(reason).catch(() => {})
+    },
+  })
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  })
+}
+
+/**
+ * Fetch a URL, following up to `maxRedirects` redirects by hand.
+ * Each hop (including the first) is run through validateUrl and its hostname
+ * resolved and checked; a blocked hop throws a ProxyError naming the offending URL.
+ * Connection errors and 429/502/503/504 responses are retried up to `retries`
+ * times, waiting as long as Retry-After asks (or a jittered backoff), but
+ * never past the overall timeout. Only GET and HEAD are sent, so retrying is safe.
+ * `credentials` are added only on hops to the original host.
+ * The timeout keeps running until the returned body has been read or
+ * cancelled, so a slow-drip body can't hold the request past it. With
+ * `idleTimeout`, it stops once headers arrive and the body is bounded by
+ * the idle timeout and `maxDuration` instead.
+ */
+export async function safeFetch(
+  url: string,
+  options: SafeFetchOptions
+): Promise<SafeFetchResult> {
+  const maxRedirects = options.maxRedirects ?? MAX_REDIRECTS
+  const resolver = options.resolver ?? defaultResolver
+  const maxRetries = options.retries ?? 0
+  const redirects: RedirectHop[] = []
+  let method = options.method || 'GET'
+  let currentUrl = url
+  let retries = 0
+  let originalUrl: URL | undefined
+
+  const fetchStartedAt = Date.now()
+  const deadline = fetchStartedAt + options.timeout
+  const controller = new AbortController()
+  let timeoutId = setTimeout(() => controller.abort(), options.timeout)
+  let idleId: ReturnType<typeof setTimeout> | undefined
+  // One pinned agent per attempt; each is closed once its response is done
+  // with, so keep-alive sockets and pools don't outlive the request
+  const agents: Agent[] = []
+  const closeAgents = () => {
+    for (const agent of agents.splice(0)) {
+      agent.close().catch(() => {})
+    }
+  }
+  const release = () => {
+    clearTimeout(timeoutId)
+    clearTimeout(idleId)
+    closeAgents()
+  }
+
+  try {
+    for (;;) {
+      const validation = validateUrl(currentUrl)
+      if (!validation.valid) {
+        throw hopError(currentUrl, redirects.length, validation.error)
+      }
+
+      const resolution = await resolveHost(validation.url!.hostname, resolver)
+      if (!resolution.valid) {
+        throw hopError(currentUrl, redirects.length, resolution.error)
+      }
+
+      originalUrl = originalUrl || validation.url!
+      const headers =
+        options.credentials && mayReceiveCredentials(originalUrl, validation.url!)
+          ? { ...options.headers, ...options.credentials }
+          : options.headers
+
+      let response: Response
+      for (;;) {
+        let delay: number
+        try {
+          const startedAt = Date.now()
+          const agent = createPinnedAgent(resolution.addresses![0])
+          agents.push(agent)
+          response = (await undiciFetch(currentUrl, {
+            method,
+            headers,
+            signal: controller.signal,
+            redirect: 'manual',
+            dispatcher: agent,
+          })) as unknown as Response
+          recordUpstream({ latencyMs: Date.now() - startedAt })
+
+          if (!RETRY_STATUSES.has(response.status) || retries >= maxRetries) break
+          delay = retryAfterDelay(response) ?? backoffDelay(retries)
+          // Hand back the failure rather than wait beyond the deadline
+          if (Date.now() + delay >= deadline) break
+          await response.body?.cancel().catch(() => {})
+          closeAgents()
+        } catch (error) {
+          // Only connection failures are transient; a bad request won't improve
+          if (controller.signal.aborted || !isConnectionError(error)) throw error
+          delay = backoffDelay(retries)
+          if (retries >= maxRetries || Date.now() + delay >= deadline) {
+            if (retries === 0) throw error
+            throw new ProxyError(
+              ErrorCodes.FETCH_FAILED,
+              `${describeFetchError(error).message} (after ${retries + 1} attempts)`
+            )
+          }
+        }
+        retries++
+        await sleep(delay, controller.signal)
+      }
+
+      const location = response.headers.get('location')
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        // A streamed body may outlast the timeout; only a stall or maxDuration cuts it off
+        let idle: IdleTimer | undefined
+        if (options.idleTimeout) {
+          const idleTimeout = options.idleTimeout
+          clearTimeout(timeoutId)
+          if (options.maxDuration) {
+            const left = fetchStartedAt + options.maxDuration - Date.now()
+            timeoutId = setTimeout(() => controller.abort(), Math.max(0, left))
+          }
+          idle = {
+            arm: () => {
+              clearTimeout(idleId)
+              idleId = setTimeout(() => controller.abort(), idleTimeout)
+            },
+            disarm: () => clearTimeout(idleId),
+          }
+        }
+        return {
+          response: releaseAfterBody(response, release, idle),
+          url: currentUrl,
+          redirects,
+          attempts: retries + 1,
+        }
+      }
+
+      // Discard the redirect body before moving on
+      await response.body?.cancel().catch(() => {})
+      closeAgents()
+
+      redirects.push({ url: currentUrl, status: response.status })
+      if (redirects.length > maxRedirects) {
+        throw new ProxyError(
+          ErrorCodes.FETCH_FAILED,
+          `Too many redirects (maximum is ${maxRedirects})`
+        )
+      }
+
+      try {
+        currentUrl = new URL(location, currentUrl).href
+      } catch {
+        throw new ProxyError(
+          ErrorCodes.INVALID_URL,
+          `Redirect from ${currentUrl} has an invalid Location header`
+        )
+      }
+
+      // 303 See Other always switches to GET
+      if (response.status === 303) {
+        method = 'GET'
+      }
+    }
+  } catch (error) {
+    release()
+    throw error
+  }
+}
+
+/**
+ * Map an error thrown while fetching to an API error code and message
+ */
+export function describeFetchError(error: unknown): { code: string; message: string } {
+  if (error instanceof ProxyError) {
+    return { code: error.code, message: error.message }
+  }
+
+  const isTimeout =
+    error instanceof Error &&
+    (error.name === 'AbortError' || error.message.includes('timeout'))
+
+  return {
+    code: isTimeout ? ErrorCodes.TIMEOUT : ErrorCodes.FETCH_FAILED,
+    message: isTimeout
+      ? 'Request timed out'
+      : error instanceof Error
+        ? error.message
+        : 'Network error during fetch',
+  }
+}
+
+/**
+ * The error for a body over `maxBytes`; `label` names the content
+ */
+export function contentTooLarge(maxBytes: number, label = 'Response'): ProxyError {
+  return new ProxyError(
+    ErrorCodes.CONTENT_TOO_LARGE,
+    `${label} exceeds maximum size of ${maxBytes / 1024 / 1024}MB`
+  )
+}
+
+/**
+ * Read a response body into memory, refusing anything larger than `maxBytes`.
+ * The body is consumed as a stream and the upstream connection is cancelled
+ * as soon as the cap is crossed, so an oversized or endless body never gets
+ * buffered. `label` names the content in the error message.
+ */
+export async function readBody(
+  response: Response,
+  maxBytes: number,
+  label = 'Response'
+): Promise<Uint8Array> {
+  // Reject early when the server announces an oversized body
+  const contentLength = response.headers.get('content-length')
+  if (contentLength && parseInt(contentLength, 10) > maxBytes) {
+    await response.body?.cancel().catch(() => {})
+    throw contentTooLarge(maxBytes, label)
+  }
+
+  if (!response.body) {
+    return new Uint8Array(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      total += value.byteLength
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => {})
+        throw contentTooLarge(maxBytes, label)
+      }
+      chunks.push(value)
+    }
+  } finally {
+    recordUpstream({ bytes: total })
+    reader.releaseLock()
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+/**
+ * Stream a response body into `destination` without buffering it, honouring
+ * backpressure. Like readBody, throws CONTENT_TOO_LARGE once `maxBytes` is
+ * crossed; by then part of the body has been written, so the caller must
+ * destroy the destination rather than send an error. Returns the byte count.
+ */
+export async function pipeBody(
+  response: Response,
+  destination: Writable,
+  maxBytes: number
+): Promise<number> {
+  if (!response.body) {
+    return 0
+  }
+
+  const reader = response.body.getReader()
+  let total = 0
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      total += value.byteLength
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => {})
+        throw contentTooLarge(maxBytes)
+      }
+
+      if (!destination.write(value)) {
+        await new Promise<void>((resolve, reject) => {
+          const onDrain = () => {
+            destination.off('close', onClose)
+            resolve()
+          }
+          const onClose = () => {
+            destination.off('drain', onDrain)
+            reject(new ProxyError(ErrorCodes.FETCH_FAILED, 'Client closed the connection'))
+          }
+          destination.once('drain', onDrain)
+          destination.once('close', onClose)
+        })
+      }
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {})
+    throw error
+  } finally {
+    recordUpstream({ bytes: total })
+    reader.releaseLock()
+  }
+
+  return total
+}
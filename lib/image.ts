@@ -0,0 +1,118 @@
+// Image proxy helpers: content sniffing by magic bytes, SVG sanitization, and
+// rewriting image URLs in parsed content to go through GET /image
+
+import type { VercelRequest } from '@vercel/node'
+import { DOMParser } from 'linkedom'
+import { SIGNED_URL_DEFAULT_TTL } from './config.js'
+import { isSigningEnabled, signUrl, signedQuery, type AuthResult } from './auth.js'
+import { getBaseUrl } from './request.js'
+
+export const SVG_TYPE = 'image/svg+xml'
+
+// SVG is text: allow an XML declaration, comments and a doctype before <svg>
+const SVG_PATTERN =
+  /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE\s+svg[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Identify an image from its leading bytes, ignoring whatever Content-Type the
+ * server claimed. Returns the MIME type, or null if it isn't a known image.
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif'
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp'
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    const brand = String.fromCharCode(...bytes.subarray(8, 12))
+    if (brand === 'avif' || brand === 'avis') return 'image/avif'
+  }
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return 'image/x-icon'
+  if (startsWith(bytes, ascii('BM'))) return 'image/bmp'
+
+  const head = Buffer.from(bytes.subarray(0, 4096))
+    .toString('latin1')
+    .replace(/^\xef\xbb\xbf/, '') // UTF-8 BOM
+  if (SVG_PATTERN.test(head)) return SVG_TYPE
+
+  return null
+}
+
+// SVG elements that can run script, embed other documents or pull in resources
+const SVG_DANGEROUS_TAGS = new Set([
+  'script',
+  'foreignobject',
+  'iframe',
+  'embed',
+  'object',
+  'style',
+  'use', // Can reference external documents
+  'image', // Loads other resources
+  'feimage',
+])
+
+/**
+ * Strip scripts, event handlers, external references and style sheets from an
+ * SVG. Returns null if the document doesn't parse as SVG.
+ */
+export function sanitizeSvg(svg: string): string | null {
+  const document = new DOMParser().parseFromString(svg, SVG_TYPE) as unknown as XMLDocument
+  const root = document.documentElement
+  if (!root || root.tagName.toLowerCase() !== 'svg') return null
+
+  for (const el of Array.from(document.querySelectorAll('*'))) {
+    if (SVG_DANGEROUS_TAGS.has(el.tagName.toLowerCase())) {
+      el.remove()
+      continue
+    }
+
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase()
+      const value = attr.value.trim().toLowerCase()
+      const isLink = name === 'href' || name.endsWith(':href')
+      if (
+        name.startsWith('on') ||
+        (isLink && !value.startsWith('#')) ||
+        (name === 'style' && /url\s*\(|expression|@import/.test(value)) ||
+        /^\s*(javascript|vbscript|data):/.test(value)
+      ) {
+        el.removeAttribute(attr.name)
+      }
+    }
+  }
+
+  return document.toString()
+}
+
+/**
+ * Build a function that rewrites image URLs to `/image?url=...` on this
+ * deployment. When the caller authenticated with a key and signing is
+ * enabled, the URLs are signed so they work from an <img> tag. The expiry is
+ * rounded up to a TTL boundary so the same image keeps the same URL (and
+ * stays cacheable) for a while.
+ */
+export function createImageUrlRewriter(
+  req: VercelRequest,
+  auth: AuthResult
+): (url: string) => string {
+  const base = `${getBaseUrl(req)}/image`
+  const sign = auth.client !== undefined && isSigningEnabled()
+  const now = Math.floor(Date.now() / 1000)
+  const exp = (Math.floor(now / SIGNED_URL_DEFAULT_TTL) + 2) * SIGNED_URL_DEFAULT_TTL
+
+  return (url: string) => {
+    if (!/^https?:\/\//i.test(url)) return url
+    if (sign) {
+      return `${base}?${signedQuery(signUrl('image', url, exp, auth.client))}`
+    }
+    return `${base}?${new URLSearchParams({ url })}`
+  }
+}
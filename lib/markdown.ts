@@ -0,0 +1,343 @@
+// HTML to Markdown conversion for POST /parse with format "markdown"
+// Works on sanitizeHtml output, so only the allowlisted tags need handling.
+// Produces CommonMark plus GFM tables and strikethrough.
+
+import { parseHTML } from 'linkedom'
+
+// Set on <pre>/<code> before Readability runs, which strips class names
+export const CODE_LANGUAGE_ATTR = 'data-language'
+
+const LANGUAGE_CLASS = /(?:^|\s)(?:language|lang)-([\w#+.-]+)/
+
+// Elements rendered as blocks; everything else is inline
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'article',
+  'section',
+  'aside',
+  'header',
+  'footer',
+  'main',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'blockquote',
+  'pre',
+  'figure',
+  'figcaption',
+  'table',
+  'caption',
+  'hr',
+  'dl',
+  'dt',
+  'dd',
+  'details',
+  'summary',
+])
+
+/**
+ * Record each code block's language (from `language-*`/`lang-*` classes or
+ * a data-lang attribute) in an attribute that survives Readability and
+ * sanitizeHtml
+ */
+export function markCodeLanguages(document: Document): void {
+  for (const el of Array.from(document.querySelectorAll('pre, code'))) {
+    const language =
+      el.getAttribute('data-lang') || LANGUAGE_CLASS.exec(el.getAttribute('class') || '')?.[1]
+    if (language) {
+      el.setAttribute(CODE_LANGUAGE_ATTR, language)
+    }
+  }
+}
+
+/**
+ * YAML front matter from the non-empty fields, values as quoted strings
+ */
+export function frontMatter(fields: Record<string, string | null>): string {
+  const lines = Object.entries(fields)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+  return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n` : ''
+}
+
+/**
+ * Convert sanitized article HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`)
+  const markdown = renderBlocks(document.body as unknown as Element).join('\n\n')
+  return markdown ? `${markdown}\n` : ''
+}
+
+function tagOf(node: Node): string {
+  return node.nodeType === 1 ? (node as Element).tagName.toLowerCase() : ''
+}
+
+function isBlock(node: Node): boolean {
+  return BLOCK_TAGS.has(tagOf(node))
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/**
+ * Render a container's children as a list of blocks. Runs of inline content
+ * between block elements become paragraphs.
+ */
+function renderBlocks(parent: Element): string[] {
+  const blocks: string[] = []
+  let inline = ''
+
+  const flush = () => {
+    const paragraph = finishInline(inline)
+    if (paragraph) blocks.push(escapeBlockStart(paragraph))
+    inline = ''
+  }
+
+  for (const child of Array.from(parent.childNodes)) {
+    if (!isBlock(child)) {
+      inline += renderInline(child)
+      continue
+    }
+    flush()
+    blocks.push(...renderBlock(child as Element))
+  }
+  flush()
+
+  return blocks
+}
+
+function renderBlock(el: Element): string[] {
+  const tag = tagOf(el)
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = finishInline(renderChildren(el)).replace(/\\\n/g, ' ')
+      return text ? [`${'#'.repeat(Number(tag[1]))} ${text}`] : []
+    }
+    case 'p':
+    case 'figcaption':
+    case 'caption':
+    case 'dd': {
+      const text = finishInline(renderChildren(el))
+      return text ? [escapeBlockStart(text)] : []
+    }
+    case 'dt':
+    case 'summary': {
+      const text = finishInline(renderChildren(el))
+      return text ? [`**${text}**`] : []
+    }
+    case 'hr':
+      return ['---']
+    case 'pre':
+      return [renderCodeBlock(el)]
+    case 'ul':
+    case 'ol':
+      return renderList(el, tag === 'ol')
+    case 'blockquote': {
+      const inner = renderBlocks(el).join('\n\n')
+      return inner ? [prefixLines(inner, '> ', '>')] : []
+    }
+    case 'table':
+      return renderTable(el)
+    default:
+      // Containers: div, section, figure, li outside a list, details...
+      return renderBlocks(el)
+  }
+}
+
+function renderCodeBlock(pre: Element): string {
+  const code = pre.querySelector('code')
+  const language =
+    pre.getAttribute(CODE_LANGUAGE_ATTR) || code?.getAttribute(CODE_LANGUAGE_ATTR) || ''
+  const text = (pre.textContent || '').replace(/\n$/, '')
+
+  // The fence must be longer than any backtick run inside the code
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${fence}${language.replace(/\s/g, '')}\n${text}\n${fence}`
+}
+
+function renderList(list: Element, ordered: boolean): string[] {
+  const items = Array.from(list.children).filter((child) => tagOf(child) === 'li')
+  let loose = false
+
+  const rendered = items.map((item, index) => {
+    const marker = ordered ? `${index + 1}.` : '-'
+    const blocks = renderBlocks(item)
+    // Items holding paragraphs are separated by blank lines
+    const hasParagraphs = Array.from(item.children).some((child) => tagOf(child) === 'p')
+    loose = loose || hasParagraphs
+    const content = blocks.join(hasParagraphs ? '\n\n' : '\n')
+    return `${marker} ${indentLines(content, ' '.repeat(marker.length + 1))}`
+  })
+
+  return rendered.length > 0 ? [rendered.join(loose ? '\n\n' : '\n')] : []
+}
+
+function renderTable(table: Element): string[] {
+  // Only this table's rows, not those of tables nested in its cells
+  const rows = Array.from(table.querySelectorAll('tr')).filter(
+    (row) => row.closest('table') === table
+  )
+  const cells = rows.map((row) =>
+    Array.from(row.children)
+      .filter((cell) => tagOf(cell) === 'td' || tagOf(cell) === 'th')
+      .map((cell) =>
+        finishInline(renderChildren(cell))
+          .replace(/\\\n/g, ' ')
+          .replace(/\n/g, ' ')
+          .replace(/\|/g, '\\|')
+      )
+  )
+  const columns = Math.max(0, ...cells.map((row) => row.length))
+  if (columns === 0) return []
+
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => row[i] || '').join(' | ')} |`
+
+  // GFM tables need a header row; the first row serves as one
+  const [header, ...body] = cells
+  const lines = [line(header), `|${' --- |'.repeat(columns)}`, ...body.map(line)]
+
+  const caption = table.querySelector('caption')
+  const captionText =
+    caption && caption.closest('table') === table ? finishInline(renderChildren(caption)) : ''
+  return captionText ? [captionText, lines.join('\n')] : [lines.join('\n')]
+}
+
+// ============================================================================
+// Inline content
+// ============================================================================
+
+function renderChildren(el: Element): string {
+  return Array.from(el.childNodes)
+    .map((child) => (isBlock(child) ? ` ${renderChildren(child as Element)} ` : renderInline(child)))
+    .join('')
+}
+
+function renderInline(node: Node): string {
+  if (node.nodeType === 3) {
+    return escapeText((node.textContent || '').replace(/\s+/g, ' '))
+  }
+  if (node.nodeType !== 1) return ''
+
+  const el = node as Element
+  switch (tagOf(el)) {
+    case 'br':
+      return '\\\n'
+    case 'strong':
+    case 'b':
+      return wrap(renderChildren(el), '**')
+    case 'em':
+    case 'i':
+    case 'cite':
+    case 'dfn':
+      return wrap(renderChildren(el), '*')
+    case 's':
+      return wrap(renderChildren(el), '~~')
+    case 'code':
+    case 'kbd':
+    case 'samp':
+      return codeSpan(el.textContent || '')
+    case 'a':
+      return renderLink(el)
+    case 'img':
+      return renderImage(el)
+    case 'video':
+    case 'audio': {
+      const src = el.getAttribute('src') || el.querySelector('source')?.getAttribute('src')
+      return src ? `[${tagOf(el)}](${escapeUrl(src)})` : ''
+    }
+    case 'source':
+      return ''
+    default:
+      return renderChildren(el)
+  }
+}
+
+function renderLink(a: Element): string {
+  const text = finishInline(renderChildren(a))
+  const href = a.getAttribute('href')
+  if (!href) return text
+  return `[${text || escapeText(href)}](${escapeUrl(href)})`
+}
+
+function renderImage(img: Element): string {
+  const src = img.getAttribute('src')
+  if (!src) return ''
+  const alt = escapeText((img.getAttribute('alt') || '').replace(/\s+/g, ' ').trim())
+  const title = img.getAttribute('title')
+  return `![${alt}](${escapeUrl(src)}${title ? ` ${JSON.stringify(title)}` : ''})`
+}
+
+/**
+ * Wrap inline content in emphasis markers, keeping surrounding spaces outside
+ */
+function wrap(content: string, marker: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content
+}
+
+function codeSpan(text: string): string {
+  const code = text.replace(/\s+/g, ' ')
+  if (!code.trim()) return ''
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length))
+  const delimiter = '`'.repeat(longestRun + 1)
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : ''
+  return `${delimiter}${padding}${code}${padding}${delimiter}`
+}
+
+/**
+ * Tidy an inline run into a paragraph: trim it and the spaces around hard breaks
+ */
+function finishInline(inline: string): string {
+  return inline
+    .replace(/ *\\\n */g, '\\\n')
+    .replace(/^(\\\n)+|(\\\n)+$/g, '')
+    .replace(/ {2,}/g, ' ')
+    .trim()
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]<]/g, '\\$&')
+}
+
+/**
+ * Escape text that would otherwise start a heading, list or quote
+ */
+function escapeBlockStart(text: string): string {
+  return text.replace(/^(#{1,6}\s|[-+]\s|>)/, '\\$1').replace(/^(\d+)([.)]\s)/, '$1\\$2')
+}
+
+function escapeUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/[\s()<>]/g, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase()}`)
+}
+
+function indentLines(text: string, indent: string): string {
+  return text
+    .split('\n')
+    .map((line, i) => (i === 0 || !line ? line : indent + line))
+    .join('\n')
+}
+
+function prefixLines(text: string, prefix: string, emptyPrefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? prefix + line : emptyPrefix))
+    .join('\n')
+}
@@ -0,0 +1,362 @@
+// Article metadata for POST /parse, gathered from JSON-LD (Article,
+// BlogPosting, NewsArticle), microformats (h-entry), Open Graph, Twitter
+// cards, Dublin Core and plain HTML. Each field takes the first source that
+// has it; the order per field is listed in extractMetadata.
+
+import { resolveUrl } from './sanitize.js'
+
+const ARTICLE_TYPES = new Set(['Article', 'BlogPosting', 'NewsArticle'])
+
+// Typical adult silent reading speed
+const WORDS_PER_MINUTE = 230
+
+export interface PageMetadata {
+  publishedTime: string | null // ISO 8601
+  modifiedTime: string | null // ISO 8601
+  canonicalUrl: string // The page's own URL when it names none
+  language: string | null // BCP 47, e.g. "en-US"
+  keywords: string[]
+  author: string | null
+  authorUrl: string | null
+  siteName: string | null
+  image: string | null
+  publisherLogo: string | null
+}
+
+type JsonObject = Record<string, unknown>
+
+interface JsonLd {
+  article: JsonObject | null // First Article, BlogPosting or NewsArticle
+  byId: Map<string, JsonObject> // Every node with an @id, for resolving references
+}
+
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const time = Date.parse(value.trim())
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+function resolveLink(url: string | null | undefined, baseUrl: string): string | null {
+  const trimmed = url?.trim()
+  return trimmed ? resolveUrl(trimmed, baseUrl) : null
+}
+
+function normalizeText(text: string | null | undefined): string | null {
+  const normalized = (text || '').replace(/\s+/g, ' ').trim()
+  return normalized || null
+}
+
+function first<T>(...values: (T | null | undefined)[]): T | null {
+  return values.find((value) => value !== null && value !== undefined) ?? null
+}
+
+function firstNonEmpty(...lists: string[][]): string[] {
+  const list = lists.find((values) => values.length > 0) || []
+  return Array.from(new Set(list))
+}
+
+function splitKeywords(value: string | null | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+}
+
+function isHttpUrl(value: string | null): value is string {
+  return value !== null && /^https?:\/\//i.test(value)
+}
+
+// ============================================================================
+// Meta tags (Open Graph, Twitter cards, Dublin Core, plain HTML)
+// ============================================================================
+
+/**
+ * Index every <meta> by its lowercased property, name or http-equiv, since
+ * Dublin Core names are written as DC.date, dc.date or DCTERMS.issued
+ */
+function indexMeta(document: Document): Map<string, string[]> {
+  const index = new Map<string, string[]>()
+  for (const meta of Array.from(document.querySelectorAll('meta[content]'))) {
+    const key =
+      meta.getAttribute('property') || meta.getAttribute('name') || meta.getAttribute('http-equiv')
+    const content = meta.getAttribute('content')?.trim()
+    if (!key || !content) continue
+    const values = index.get(key.toLowerCase()) || []
+    values.push(content)
+    index.set(key.toLowerCase(), values)
+  }
+  return index
+}
+
+function metaValue(index: Map<string, string[]>, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = index.get(key)?.[0]
+    if (value) return value
+  }
+  return null
+}
+
+function metaDate(index: Map<string, string[]>, ...keys: string[]): string | null {
+  return first(...keys.map((key) => toIsoDate(metaValue(index, key))))
+}
+
+// ============================================================================
+// JSON-LD
+// ============================================================================
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function hasArticleType(node: JsonObject): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']]
+  return types.some((type) => typeof type === 'string' && ARTICLE_TYPES.has(type))
+}
+
+/**
+ * Read every JSON-LD block, flattening arrays and @graph. Blocks that aren't
+ * valid JSON are skipped.
+ */
+function readJsonLd(document: Document): JsonLd {
+  const nodes: JsonObject[] = []
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (isObject(value)) {
+      nodes.push(value)
+      if (value['@graph']) collect(value['@graph'])
+    }
+  }
+
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      collect(JSON.parse(script.textContent || ''))
+    } catch {
+      // Broken JSON-LD is common; the other sources still apply
+    }
+  }
+
+  const byId = new Map<string, JsonObject>()
+  for (const node of nodes) {
+    if (typeof node['@id'] === 'string') byId.set(node['@id'], node)
+  }
+  return { article: nodes.find(hasArticleType) || null, byId }
+}
+
+/**
+ * Follow a `{"@id": ...}` reference to the node it names, as Yoast and other
+ * @graph publishers do for authors and publishers
+ */
+function deref(value: unknown, jsonLd: JsonLd): unknown {
+  if (isObject(value) && typeof value['@id'] === 'string' && jsonLd.byId.has(value['@id'])) {
+    return { ...jsonLd.byId.get(value['@id']), ...value }
+  }
+  return value
+}
+
+function jsonString(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null
+  if (typeof value === 'number') return String(value)
+  return null
+}
+
+function jsonList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function jsonName(value: unknown, jsonLd: JsonLd): string | null {
+  const node = deref(value, jsonLd)
+  return isObject(node) ? jsonString(node.name) : jsonString(node)
+}
+
+function jsonUrl(value: unknown, jsonLd: JsonLd): string | null {
+  for (const item of jsonList(value)) {
+    const node = deref(item, jsonLd)
+    const url = isObject(node)
+      ? jsonString(node.url) || jsonString(node.contentUrl) || jsonString(node['@id'])
+      : jsonString(node)
+    if (url) return url
+  }
+  return null
+}
+
+function jsonLanguage(value: unknown, jsonLd: JsonLd): string | null {
+  const node = deref(value, jsonLd)
+  return isObject(node) ? jsonString(node.alternateName) || jsonString(node.name) : jsonString(node)
+}
+
+function jsonKeywords(value: unknown): string[] {
+  return jsonList(value).flatMap((keyword) => splitKeywords(jsonString(keyword)))
+}
+
+// ============================================================================
+// Microformats (h-entry)
+// ============================================================================
+
+/**
+ * The outermost h-entry; nested ones are usually comments (h-cite/h-entry)
+ */
+function findHEntry(document: Document): Element | null {
+  return (
+    Array.from(document.querySelectorAll('.h-entry')).find(
+      (el) => !el.parentElement?.closest('.h-entry')
+    ) || null
+  )
+}
+
+// Properties of this entry, not of an entry nested in it
+function hProperties(entry: Element, selector: string): Element[] {
+  return Array.from(entry.querySelectorAll(selector)).filter(
+    (el) => el.parentElement?.closest('.h-entry') === entry || el.parentElement === entry
+  )
+}
+
+function hDate(entry: Element | null, selector: string): string | null {
+  const el = entry ? hProperties(entry, selector)[0] : undefined
+  if (!el) return null
+  return toIsoDate(el.getAttribute('datetime') || el.getAttribute('title') || el.textContent)
+}
+
+function hUrl(el: Element | undefined): string | null {
+  return el?.getAttribute('href') || el?.getAttribute('src') || null
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Gather the page's metadata. Call before Readability, which modifies the
+ * document. Relative URLs are resolved against `baseUrl`.
+ */
+export function extractMetadata(document: Document, baseUrl: string): PageMetadata {
+  const meta = indexMeta(document)
+  const jsonLd = readJsonLd(document)
+  const article = jsonLd.article || {}
+  const publisher = deref(article.publisher, jsonLd)
+  const authors = jsonList(article.author)
+  const entry = findHEntry(document)
+  const entryAuthor = entry ? hProperties(entry, '.p-author')[0] : undefined
+  const articleAuthor = metaValue(meta, 'article:author')
+
+  // JSON-LD, h-entry, Open Graph article:*, Dublin Core, then <time> elements
+  const publishedTime = first(
+    toIsoDate(jsonString(article.datePublished)),
+    hDate(entry, '.dt-published'),
+    metaDate(meta, 'article:published_time'),
+    metaDate(meta, 'dcterms.issued', 'dcterms.created', 'dc.date.issued', 'dc.date.created', 'dc.date'),
+    toIsoDate(
+      document
+        .querySelector('time[itemprop="datePublished"], time[pubdate], article time[datetime]')
+        ?.getAttribute('datetime')
+    )
+  )
+
+  const modifiedTime = first(
+    toIsoDate(jsonString(article.dateModified)),
+    hDate(entry, '.dt-updated'),
+    metaDate(meta, 'article:modified_time', 'og:updated_time'),
+    metaDate(meta, 'dcterms.modified', 'dc.date.modified'),
+    toIsoDate(document.querySelector('time[itemprop="dateModified"]')?.getAttribute('datetime'))
+  )
+
+  // <link rel=canonical> and og:url come first: they describe this page
+  // rather than the entity it's about
+  const canonicalUrl =
+    first(
+      resolveLink(document.querySelector('link[rel="canonical"]')?.getAttribute('href'), baseUrl),
+      resolveLink(metaValue(meta, 'og:url'), baseUrl),
+      resolveLink(jsonUrl(article.mainEntityOfPage, jsonLd) || jsonString(article.url), baseUrl),
+      resolveLink(entry ? hUrl(hProperties(entry, '.u-url')[0]) : null, baseUrl)
+    ) || baseUrl
+
+  const language = first(
+    jsonLanguage(article.inLanguage, jsonLd),
+    document.documentElement?.getAttribute('lang')?.trim() || null,
+    metaValue(meta, 'og:locale')?.replace(/_/g, '-'),
+    metaValue(meta, 'dc.language', 'dcterms.language'),
+    metaValue(meta, 'content-language')?.split(',')[0].trim()
+  )
+
+  const keywords = firstNonEmpty(
+    jsonKeywords(article.keywords),
+    entry ? hProperties(entry, '.p-category').map((el) => normalizeText(el.textContent) || '') : [],
+    meta.get('article:tag') || [],
+    (meta.get('dc.subject') || []).flatMap(splitKeywords),
+    splitKeywords(metaValue(meta, 'keywords'))
+  ).filter(Boolean)
+
+  const author = first(
+    normalizeText(
+      authors
+        .map((item) => jsonName(item, jsonLd))
+        .filter(Boolean)
+        .join(', ')
+    ),
+    entryAuthor
+      ? normalizeText(entryAuthor.querySelector('.p-name')?.textContent || entryAuthor.textContent)
+      : null,
+    metaValue(meta, 'dc.creator', 'dcterms.creator'),
+    metaValue(meta, 'author'),
+    isHttpUrl(articleAuthor) ? null : articleAuthor
+  )
+
+  // An h-card author is either a link itself or holds a u-url
+  const entryAuthorLink = entryAuthor?.matches('a')
+    ? entryAuthor
+    : entryAuthor?.querySelector('.u-url') || undefined
+  const authorUrl = first(
+    resolveLink(jsonUrl(authors, jsonLd), baseUrl),
+    resolveLink(hUrl(entryAuthorLink), baseUrl),
+    isHttpUrl(articleAuthor) ? articleAuthor : null,
+    resolveLink(
+      document.querySelector('link[rel="author"], a[rel="author"]')?.getAttribute('href'),
+      baseUrl
+    )
+  )
+
+  const siteName = first(
+    metaValue(meta, 'og:site_name'),
+    metaValue(meta, 'application-name'),
+    jsonName(publisher, jsonLd),
+    metaValue(meta, 'dc.publisher', 'dcterms.publisher')
+  )
+
+  const image = first(
+    resolveLink(metaValue(meta, 'og:image', 'og:image:url', 'og:image:secure_url'), baseUrl),
+    resolveLink(metaValue(meta, 'twitter:image', 'twitter:image:src'), baseUrl),
+    resolveLink(jsonUrl(article.image, jsonLd), baseUrl),
+    resolveLink(entry ? hUrl(hProperties(entry, '.u-featured, .u-photo')[0]) : null, baseUrl),
+    resolveLink(document.querySelector('article img[src]')?.getAttribute('src'), baseUrl)
+  )
+
+  const publisherLogo = first(
+    resolveLink(isObject(publisher) ? jsonUrl(publisher.logo, jsonLd) : null, baseUrl),
+    resolveLink(metaValue(meta, 'og:logo'), baseUrl)
+  )
+
+  return {
+    publishedTime,
+    modifiedTime,
+    canonicalUrl,
+    language,
+    keywords,
+    author,
+    authorUrl,
+    siteName,
+    image,
+    publisherLogo,
+  }
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Estimated reading time in whole minutes, at least 1 for any text
+ */
+export function readingTime(wordCount: number): number {
+  return wordCount > 0 ? Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)) : 0
+}
@@ -0,0 +1,119 @@
+// Multi-page articles for POST /parse: finding the next page of an article
+// split across ?page=2 or /2/ URLs, and merging the pages' Readability output
+
+import { parseHTML } from 'linkedom'
+
+// Query parameters that commonly carry a page number
+const PAGE_PARAMS = ['page', 'p', 'pg', 'paged']
+
+// Blocks compared across pages to drop repeated headers, bylines and notices
+const DEDUPE_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, ul, ol, blockquote, figure, table'
+
+// Page navigation left in the content: "1 2 3 Next »", "‹ Previous page"...
+const PAGER_TEXT =
+  /^(?:\s|\d+|[|«»‹›←→…·-]|page|of|next|previous|prev|older|newer|first|last)+$/i
+
+interface PageLocation {
+  base: string // The URL with its page number removed
+  page: number
+}
+
+/**
+ * Split a URL into the article it belongs to and its page number: the
+ * `page`/`p`/`pg`/`paged` query parameter, or a trailing `/2/` or `/page/2/`
+ * path segment (up to two digits, so post IDs aren't taken for pages).
+ * URLs without either are page 1.
+ */
+function locatePage(url: URL): PageLocation {
+  const params = new URLSearchParams(url.search)
+  let path = url.pathname
+  let page = 1
+
+  const param = PAGE_PARAMS.find((name) => /^\d+$/.test(params.get(name) || ''))
+  if (param) {
+    page = parseInt(params.get(param)!, 10)
+    params.delete(param)
+  } else {
+    const match = /^(.*?)(?:\/page)?\/(\d{1,2})\/?$/.exec(path)
+    if (match) {
+      path = match[1]
+      page = parseInt(match[2], 10)
+    }
+  }
+
+  const query = params.toString()
+  return { base: `${url.origin}${path.replace(/\/$/, '')}${query ? `?${query}` : ''}`, page }
+}
+
+function resolve(href: string | null, baseUrl: string): URL | null {
+  if (!href) return null
+  try {
+    const url = new URL(href, baseUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Find the URL of the article's next page in a (not yet Readability-processed)
+ * document. Candidates come from rel="next" first, then any link, but only a
+ * link to the same article with the page number one higher counts, so "next
+ * post" links and pagination of other lists are ignored.
+ */
+export function findNextPageUrl(document: Document, pageUrl: string): string | null {
+  const current = new URL(pageUrl)
+  const here = locatePage(current)
+
+  const candidates = [
+    ...Array.from(document.querySelectorAll('link[rel~="next"], a[rel~="next"]')),
+    ...Array.from(document.querySelectorAll('a[href]')),
+  ]
+  for (const el of candidates) {
+    const url = resolve(el.getAttribute('href'), pageUrl)
+    if (!url || url.origin !== current.origin) continue
+    const there = locatePage(url)
+    if (there.base === here.base && there.page === here.page + 1) {
+      url.hash = ''
+      return url.href
+    }
+  }
+
+  return null
+}
+
+function normalizeText(text: string | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Merge the Readability content of consecutive pages. Later pages lose blocks
+ * already seen on an earlier page (the repeated title, byline, intro or
+ * sidebar), and every page loses leftover page navigation.
+ */
+export function mergePages(contents: string[], title: string | null): string {
+  const seen = new Set<string>()
+  if (title) seen.add(normalizeText(title))
+
+  return contents
+    .map((content, index) => {
+      const { document } = parseHTML(`<!DOCTYPE html><html><body>${content}</body></html>`)
+
+      for (const el of Array.from(document.querySelectorAll(DEDUPE_SELECTOR))) {
+        if (!el.isConnected) continue
+        const text = normalizeText(el.textContent)
+        if (!text) continue
+        // Blocks with images are worth keeping even if their text repeats
+        const hasMedia = el.querySelector('img, picture, video') !== null
+        const repeated = index > 0 && seen.has(text)
+        if (!hasMedia && (repeated || PAGER_TEXT.test(text))) {
+          el.remove()
+        } else {
+          seen.add(text)
+        }
+      }
+
+      return document.body.innerHTML
+    })
+    .join('\n')
+}
@@ -0,0 +1,230 @@
+// Token-bucket rate limiting per API key and per client IP
+// Buckets live in a pluggable store: in-memory for a single instance, Redis for several
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  RATE_LIMIT_PER_IP,
+  RATE_LIMIT_PER_KEY,
+  RATE_LIMIT_STORE,
+  REDIS_URL,
+} from './config.js'
+import type { AuthResult } from './auth.js'
+import { getRedisClient, type RedisClient } from './redis.js'
+
+const WINDOW_MS = 60_000 // Limits are expressed per minute
+const MAX_MEMORY_BUCKETS = 10_000
+
+export interface Bucket {
+  key: string
+  capacity: number // Tokens when full; the bucket refills completely over WINDOW_MS
+}
+
+export interface BucketState {
+  allowed: boolean // Whether this bucket alone had a token for the request
+  taken: number // Tokens taken by this request, the same from every bucket
+  remaining: number // Whole tokens left after this request
+  resetMs: number // Time until the bucket is full again
+  retryAfterMs: number // Time until the next token, 0 if allowed
+}
+
+export interface RateLimitStore {
+  /**
+   * Take the same number of tokens from every bucket in one step: up to
+   * `cost`, but no more than the emptiest bucket holds. A request one bucket
+   * denies takes nothing from the others.
+   */
+  take(buckets: Bucket[], cost?: number): Promise<BucketState[]>
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  granted: number // Units of the cost covered by every bucket
+  limit: number
+  remaining: number
+  resetSeconds: number
+  retryAfterSeconds: number
+}
+
+function bucketState(tokens: number, capacity: number, taken: number): BucketState {
+  const refillPerMs = capacity / WINDOW_MS
+  // Tokens before this request, to tell whether this bucket was the one short
+  const allowed = tokens + taken >= 1
+  return {
+    allowed,
+    taken,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetMs: Math.ceil((capacity - tokens) / refillPerMs),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+  }
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const store = new Map<string, { tokens: number; updatedAt: number }>()
+
+  return {
+    async take(buckets, cost = 1) {
+      const now = Date.now()
+
+      // Drop buckets that have refilled completely; they carry no state
+      if (store.size > MAX_MEMORY_BUCKETS) {
+        for (const [key, bucket] of store) {
+          if (now - bucket.updatedAt > WINDOW_MS) store.delete(key)
+        }
+      }
+
+      const levels = buckets.map(({ key, capacity }) => {
+        const bucket = store.get(key) || { tokens: capacity, updatedAt: now }
+        return Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * capacity) / WINDOW_MS)
+      })
+      const taken = Math.max(0, Math.min(cost, ...levels.map(Math.floor)))
+
+      return buckets.map(({ key, capacity }, i) => {
+        const tokens = levels[i] - taken
+        store.set(key, { tokens, updatedAt: now })
+        return bucketState(tokens, capacity, taken)
+      })
+    },
+  }
+}
+
+// Refill every bucket and take from all of them atomically on the Redis
+// server, using its clock so that instances with skewed clocks share one
+// consistent bucket. KEYS are the buckets; ARGV is the window, the cost and
+// each bucket's capacity.
+const TAKE_SCRIPT = `
+local window = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local levels = {}
+local taken = cost
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i + 2])
+  local bucket = redis.call('HMGET', key, 'tokens', 'ts')
+  local tokens = tonumber(bucket[1]) or capacity
+  local ts = tonumber(bucket[2]) or now
+  levels[i] = math.min(capacity, tokens + (now - ts) * capacity / window)
+  taken = math.min(taken, math.floor(levels[i]))
+end
+taken = math.max(0, taken)
+local reply = { taken }
+for i, key in ipairs(KEYS) do
+  local tokens = levels[i] - taken
+  redis.call('HSET', key, 'tokens', tostring(tokens), 'ts', now)
+  redis.call('PEXPIRE', key, window)
+  reply[i + 1] = tostring(tokens)
+end
+return reply
+`
+
+export function createRedisStore(client: RedisClient, prefix = 'bab:ratelimit:'): RateLimitStore {
+  return {
+    async take(buckets, cost = 1) {
+      const reply = await client.command([
+        'EVAL',
+        TAKE_SCRIPT,
+        buckets.length,
+        ...buckets.map((bucket) => prefix + bucket.key),
+        WINDOW_MS,
+        cost,
+        ...buckets.map((bucket) => bucket.capacity),
+      ])
+      const [taken, ...levels] = reply as [number, ...string[]]
+      return buckets.map((bucket, i) => bucketState(parseFloat(levels[i]), bucket.capacity, taken))
+    },
+  }
+}
+
+let defaultStore: RateLimitStore | null = null
+
+function getDefaultStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore =
+      RATE_LIMIT_STORE === 'redis' ? createRedisStore(getRedisClient(REDIS_URL)) : createMemoryStore()
+  }
+  return defaultStore
+}
+
+/**
+ * Best-effort client IP: Vercel puts the real client first in X-Forwarded-For
+ */
+export function getClientIp(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for']
+  const forwardedValue = Array.isArray(forwarded) ? forwarded[0] : forwarded
+  if (forwardedValue) {
+    return forwardedValue.split(',')[0].trim()
+  }
+
+  const realIp = req.headers['x-real-ip']
+  if (typeof realIp === 'string' && realIp) return realIp
+
+  return req.socket?.remoteAddress || 'unknown'
+}
+
+/**
+ * Check the per-key and per-IP buckets for a request and report the most
+ * restrictive one. A request that does `cost` units of upstream work takes
+ * that many tokens, or as many as every bucket has left; `granted` is how
+ * many units were covered. A denied request takes nothing from any bucket. If the store is unreachable the request
+ * is let through, so a storage outage doesn't take the proxy down with it.
+ */
+export async function checkRateLimit(
+  req: VercelRequest,
+  auth: AuthResult,
+  cost = 1,
+  store: RateLimitStore = getDefaultStore()
+): Promise<RateLimitResult | null> {
+  const buckets: Bucket[] = []
+
+  if (auth.client) {
+    const keyLimit = auth.rateLimit ?? RATE_LIMIT_PER_KEY
+    if (keyLimit > 0) buckets.push({ key: `key:${auth.client}`, capacity: keyLimit })
+  }
+  if (RATE_LIMIT_PER_IP > 0) {
+    buckets.push({ key: `ip:${getClientIp(req)}`, capacity: RATE_LIMIT_PER_IP })
+  }
+
+  if (buckets.length === 0) return null
+
+  let states: BucketState[]
+  try {
+    states = await store.take(buckets, cost)
+  } catch {
+    return null
+  }
+
+  // Report the denied bucket if any, otherwise the one with the fewest tokens left
+  let index = 0
+  for (let i = 1; i < states.length; i++) {
+    const current = states[index]
+    const candidate = states[i]
+    if (
+      (!candidate.allowed && current.allowed) ||
+      (candidate.allowed === current.allowed && candidate.remaining < current.remaining)
+    ) {
+      index = i
+    }
+  }
+
+  const state = states[index]
+  return {
+    allowed: state.taken > 0,
+    granted: state.taken,
+    limit: buckets[index].capacity,
+    remaining: state.remaining,
+    resetSeconds: Math.ceil(state.resetMs / 1000),
+    retryAfterSeconds: Math.ceil(state.retryAfterMs / 1000),
+  }
+}
+
+/**
+ * Set the standard RateLimit-* headers, plus Retry-After when limited
+ */
+export function setRateLimitHeaders(res: VercelResponse, result: RateLimitResult): void {
+  res.setHeader('RateLimit-Limit', String(result.limit))
+  res.setHeader('RateLimit-Remaining', String(result.remaining))
+  res.setHeader('RateLimit-Reset', String(result.resetSeconds))
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(Math.max(1, result.retryAfterSeconds)))
+  }
+}
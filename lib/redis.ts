@@ -0,0 +1,198 @@
+// Minimal Redis client speaking RESP2 over a single persistent connection
+// Enough for shared state (rate limits, usage counters, cache) without a driver dependency
+
+import { connect as netConnect, type Socket } from 'node:net'
+import { connect as tlsConnect } from 'node:tls'
+
+export type RedisReply = string | number | null | RedisReply[]
+
+export interface RedisClient {
+  command(args: Array<string | number>): Promise<RedisReply>
+  close(): void
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+const CONNECT_TIMEOUT = 5000
+// A server that accepts commands but never answers must not hang the handler
+const COMMAND_TIMEOUT = 2000
+
+function encodeCommand(args: Array<string | number>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)]
+  for (const arg of args) {
+    const value = Buffer.from(String(arg))
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'))
+  }
+  return Buffer.concat(parts)
+}
+
+/**
+ * Parse one RESP2 reply starting at `offset`.
+ * Returns null if the buffer doesn't hold a complete reply yet.
+ */
+function parseReply(
+  buffer: Buffer,
+  offset: number
+): { reply: RedisReply | Error; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return null
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { reply: line, next }
+    case '-':
+      return { reply: new Error(line), next }
+    case ':':
+      return { reply: parseInt(line, 10), next }
+    case '$': {
+      const length = parseInt(line, 10)
+      if (length === -1) return { reply: null, next }
+      if (buffer.length < next + length + 2) return null
+      return { reply: buffer.toString('utf8', next, next + length), next: next + length + 2 }
+    }
+    case '*': {
+      const count = parseInt(line, 10)
+      if (count === -1) return { reply: null, next }
+      const items: RedisReply[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return null
+        // Errors nested in arrays (e.g. EXEC) are surfaced as strings
+        items.push(item.reply instanceof Error ? item.reply.message : item.reply)
+        position = item.next
+      }
+      return { reply: items, next: position }
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${type}`)
+  }
+}
+
+/**
+ * Create a client for a `redis://` or `rediss://` URL.
+ * The connection is opened lazily and re-opened after errors; AUTH and
+ * SELECT from the URL are sent on every new connection. A command without a
+ * reply after `commandTimeout` ms fails every pending command and drops the
+ * connection, so callers can fall back instead of waiting forever.
+ */
+export function createRedisClient(redisUrl: string, commandTimeout = COMMAND_TIMEOUT): RedisClient {
+  const url = new URL(redisUrl)
+  const useTls = url.protocol === 'rediss:'
+  const host = url.hostname || '127.0.0.1'
+  const port = parseInt(url.port || '6379', 10)
+  const username = decodeURIComponent(url.username)
+  const password = decodeURIComponent(url.password)
+  const database = url.pathname.replace(/^\//, '')
+
+  let socket: Socket | null = null
+  let buffer: Buffer = Buffer.alloc(0)
+  let pending: PendingCommand[] = []
+
+  function failAll(error: Error): void {
+    const failed = pending
+    pending = []
+    buffer = Buffer.alloc(0)
+    socket?.destroy()
+    socket = null
+    for (const command of failed) {
+      clearTimeout(command.timer)
+      command.reject(error)
+    }
+  }
+
+  function onData(chunk: Buffer): void {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk
+    let offset = 0
+    for (;;) {
+      let parsed: ReturnType<typeof parseReply>
+      try {
+        parsed = parseReply(buffer, offset)
+      } catch (error) {
+        failAll(error as Error)
+        return
+      }
+      if (!parsed) break
+      offset = parsed.next
+      const command = pending.shift()
+      if (pending.length === 0) socket?.unref()
+      if (!command) continue
+      clearTimeout(command.timer)
+      if (parsed.reply instanceof Error) {
+        command.reject(parsed.reply)
+      } else {
+        command.resolve(parsed.reply)
+      }
+    }
+    buffer = buffer.subarray(offset)
+  }
+
+  function send(args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => failAll(new Error('Redis command timed out')), commandTimeout)
+      pending.push({ resolve, reject, timer })
+      // Hold the process open only while replies are outstanding
+      socket!.ref()
+      socket!.write(encodeCommand(args))
+    })
+  }
+
+  function ensureConnected(): void {
+    if (socket) return
+
+    const connection = useTls
+      ? tlsConnect({ host, port, servername: host })
+      : netConnect({ host, port })
+    connection.setTimeout(CONNECT_TIMEOUT, () => {
+      failAll(new Error('Redis connection timed out'))
+    })
+    connection.once(useTls ? 'secureConnect' : 'connect', () => connection.setTimeout(0))
+    connection.on('data', onData)
+    connection.on('error', (error) => failAll(error))
+    connection.on('close', () => {
+      if (socket === connection) failAll(new Error('Redis connection closed'))
+    })
+    socket = connection
+
+    // Commands are pipelined, so these run before anything queued after them
+    if (password) {
+      send(username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => {})
+    }
+    if (database) {
+      send(['SELECT', database]).catch(() => {})
+    }
+  }
+
+  return {
+    command(args) {
+      ensureConnected()
+      return send(args)
+    },
+    close() {
+      socket?.end()
+      socket = null
+    },
+  }
+}
+
+const clients = new Map<string, RedisClient>()
+
+/**
+ * Shared client per URL, so every store in a function instance reuses one connection
+ */
+export function getRedisClient(redisUrl: string): RedisClient {
+  let client = clients.get(redisUrl)
+  if (!client) {
+    client = createRedisClient(redisUrl)
+    clients.set(redisUrl, client)
+  }
+  return client
+}
@@ -0,0 +1,66 @@
+// Helpers for reading incoming requests
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { PUBLIC_BASE_URL, MAX_REQUEST_BODY, ErrorCodes } from './config.js'
+
+/**
+ * Read a single query string parameter (the first one if repeated)
+ */
+export function getQueryParam(req: VercelRequest, name: string): string | undefined {
+  const value = req.query?.[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Public base URL of this deployment, for links it hands out (signed URLs,
+ * proxied images). PUBLIC_BASE_URL wins; otherwise the Host header is used.
+ * X-Forwarded-Host is ignored because the caller controls it and could get
+ * signed links pointing at another host.
+ */
+export function getBaseUrl(req: VercelRequest): string {
+  if (PUBLIC_BASE_URL) return PUBLIC_BASE_URL
+
+  const forwardedProto = req.headers['x-forwarded-proto']
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) || 'https'
+  return `${proto.split(',')[0].trim() === 'http' ? 'http' : 'https'}://${req.headers.host}`
+}
+
+/**
+ * Enforce a request body size limit from Content-Length, before `req.body`
+ * is read. A body without Content-Length (chunked) can't be checked up front
+ * and is refused with 411. Sends the error and returns false when the request
+ * can't go on; requests without a body always pass.
+ */
+export function checkBodySize(
+  req: VercelRequest,
+  res: VercelResponse,
+  limit: number = MAX_REQUEST_BODY
+): boolean {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') return true
+
+  const contentLength = parseInt(req.headers['content-length'] || '', 10)
+  if (Number.isNaN(contentLength)) {
+    if (!req.headers['transfer-encoding']) return true
+    res.status(411).json({
+      success: false,
+      error: {
+        code: ErrorCodes.INVALID_URL,
+        message: 'Request body must be sent with a Content-Length',
+      },
+    })
+    return false
+  }
+
+  if (contentLength > limit) {
+    res.status(413).json({
+      success: false,
+      error: {
+        code: ErrorCodes.CONTENT_TOO_LARGE,
+        message: `Request body exceeds the ${limit} byte limit`,
+      },
+    })
+    return false
+  }
+
+  return true
+}
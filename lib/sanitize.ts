@@ -103,6 +103,14 @@ const ALLOWED_ATTRS: Record<string, string[]> = {
   th: ['colspan', 'rowspan', 'scope'],
   col: ['span'],
   colgroup: ['span'],
+  pre: ['data-language'], // Code block language, see markCodeLanguages
+  code: ['data-language'],
+}
+
+export interface SanitizeOptions {
+  // Applied to every absolute image URL (img, picture sources, video posters),
+  // e.g. to route images through GET /image
+  rewriteImageUrl?: (url: string) => string
 }
 
 /**
@@ -110,7 +118,7 @@ const ALLOWED_ATTRS: Record<string, string[]> = {
  * Strips all attributes except allowed ones, removes dangerous elements,
  * and resolves relative URLs to absolute
  */
-export function sanitizeHtml(html: string, baseUrl: string): string {
+export function sanitizeHtml(html: string, baseUrl: string, options: SanitizeOptions = {}): string {
   const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`)
 
   // Remove dangerous elements completely (including content)
@@ -248,9 +256,47 @@ export function sanitizeHtml(html: string, baseUrl: string): string {
     }
   }
 
+  if (options.rewriteImageUrl) {
+    rewriteImageUrls(document, options.rewriteImageUrl)
+  }
+
   return document.body.innerHTML
 }
 
+/**
+ * Rewrite image URLs in already-sanitized content. Sources inside <video>
+ * and <audio> are media, not images, and are left alone.
+ */
+function rewriteImageUrls(document: Document, rewrite: (url: string) => string): void {
+  for (const img of Array.from(document.querySelectorAll('img'))) {
+    const src = img.getAttribute('src')
+    if (src) img.setAttribute('src', rewrite(src))
+  }
+
+  for (const source of Array.from(document.querySelectorAll('picture source'))) {
+    const src = source.getAttribute('src')
+    if (src) source.setAttribute('src', rewrite(src))
+
+    const srcset = source.getAttribute('srcset')
+    if (srcset) {
+      const rewritten = srcset
+        .split(',')
+        .map((entry) => {
+          const parts = entry.trim().split(/\s+/)
+          if (parts[0]) parts[0] = rewrite(parts[0])
+          return parts.join(' ')
+        })
+        .join(', ')
+      source.setAttribute('srcset', rewritten)
+    }
+  }
+
+  for (const video of Array.from(document.querySelectorAll('video'))) {
+    const poster = video.getAttribute('poster')
+    if (poster) video.setAttribute('poster', rewrite(poster))
+  }
+}
+
 /**
  * Resolve relative URLs in srcset attribute
  */
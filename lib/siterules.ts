@@ -0,0 +1,281 @@
+// Per-site extraction rules for POST /parse, for sites where Readability picks
+// the wrong container: comment threads, newsletter boxes, a missing lead image.
+// Built-in rules ship below; operators add their own (checked first) in a JSON
+// file named by SITE_RULES_FILE.
+
+import { readFileSync } from 'node:fs'
+import { parseHTML } from 'linkedom'
+
+// Rule as written in the built-in list or the rules file
+interface SiteRuleConfig {
+  name: string
+  hosts: string[] // example.com exactly, or *.example.com for any of its subdomains
+  content?: string[] // Article body; the first selector that matches replaces Readability
+  strip?: string[] // Removed before extraction, with or without Readability
+  title?: string[]
+  author?: string[]
+  date?: string[] // Read from datetime/content attributes, else the element's text
+  singlePage?: { pattern: string; replace: string }[] // URL rewrites to a one-page view
+}
+
+type HostPattern = { type: 'exact'; host: string } | { type: 'wildcard'; suffix: string }
+
+export interface SiteRule {
+  name: string
+  hosts: HostPattern[]
+  content: string[]
+  strip: string[]
+  title: string[]
+  author: string[]
+  date: string[]
+  singlePage: { pattern: RegExp; replace: string }[]
+}
+
+export interface SiteExtraction {
+  title: string | null
+  byline: string | null
+  publishedTime: string | null // ISO 8601
+  content: string | null // Null when no content selector matched
+  textContent: string
+}
+
+const BUILTIN_RULES: SiteRuleConfig[] = [
+  {
+    name: 'substack',
+    hosts: ['*.substack.com'],
+    content: ['.available-content'],
+    strip: ['.subscription-widget-wrap', '.subscribe-widget', '.post-footer', '.comments-section'],
+    title: ['h1.post-title'],
+    author: ['.byline-names a'],
+    date: ['.post-date', 'time'],
+  },
+  {
+    name: 'wordpress.com',
+    hosts: ['*.wordpress.com'],
+    strip: ['#jp-post-flair', '.sharedaddy', '.wpcnt', '#comments', '.wp-block-jetpack-subscriptions'],
+    author: ['.entry-meta .author a', '.byline .author'],
+    date: ['time.entry-date'],
+  },
+  {
+    name: 'blogger',
+    hosts: ['*.blogspot.com'],
+    content: ['.post-body'],
+    strip: ['.post-share-buttons', '.post-footer', '#comments', '.blog-pager'],
+    title: ['.post-title'],
+    author: ['.post-author .fn'],
+    date: ['.published'],
+  },
+  {
+    name: 'dev.to',
+    hosts: ['dev.to'],
+    content: ['#article-body'],
+    strip: ['#comments'],
+    title: ['#main-title h1', 'h1'],
+    author: ['.crayons-article__subheader a.crayons-link'],
+    date: ['.crayons-article__subheader time'],
+  },
+]
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/\.$/, '')
+}
+
+/**
+ * Throw if any selector is one the DOM can't parse, so a bad rules file is
+ * caught at startup rather than on the first matching page
+ */
+function checkSelectors(selectors: unknown, field: string, rule: string, source: string): string[] {
+  if (selectors === undefined) return []
+  if (!Array.isArray(selectors) || !selectors.every((s) => typeof s === 'string' && s.trim())) {
+    throw new Error(`Site rule "${rule}" in ${source}: ${field} must be an array of selectors`)
+  }
+  const { document } = parseHTML('<!DOCTYPE html><html><body></body></html>')
+  for (const selector of selectors) {
+    try {
+      document.querySelector(selector)
+    } catch {
+      throw new Error(`Site rule "${rule}" in ${source}: invalid ${field} selector "${selector}"`)
+    }
+  }
+  return selectors
+}
+
+function compileRule(entry: SiteRuleConfig, source: string): SiteRule {
+  if (!entry || typeof entry.name !== 'string' || !entry.name) {
+    throw new Error(`Invalid site rule in ${source}: missing name`)
+  }
+  const { name } = entry
+
+  if (!Array.isArray(entry.hosts) || entry.hosts.length === 0) {
+    throw new Error(`Site rule "${name}" in ${source} needs at least one host`)
+  }
+  const hosts = entry.hosts.map((host): HostPattern => {
+    if (typeof host !== 'string' || !host.trim()) {
+      throw new Error(`Site rule "${name}" in ${source}: hosts must be hostnames`)
+    }
+    const pattern = normalizeHost(host.trim())
+    return pattern.startsWith('*.')
+      ? { type: 'wildcard', suffix: pattern.slice(1) }
+      : { type: 'exact', host: pattern }
+  })
+
+  const singlePage = (entry.singlePage || []).map((rewrite) => {
+    if (!rewrite || typeof rewrite.pattern !== 'string' || typeof rewrite.replace !== 'string') {
+      throw new Error(`Site rule "${name}" in ${source}: singlePage needs a pattern and replace`)
+    }
+    try {
+      return { pattern: new RegExp(rewrite.pattern), replace: rewrite.replace }
+    } catch {
+      throw new Error(`Site rule "${name}" in ${source}: invalid singlePage pattern`)
+    }
+  })
+
+  return {
+    name,
+    hosts,
+    content: checkSelectors(entry.content, 'content', name, source),
+    strip: checkSelectors(entry.strip, 'strip', name, source),
+    title: checkSelectors(entry.title, 'title', name, source),
+    author: checkSelectors(entry.author, 'author', name, source),
+    date: checkSelectors(entry.date, 'date', name, source),
+    singlePage,
+  }
+}
+
+function parseRuleList(json: string, source: string): SiteRule[] {
+  let entries: unknown
+  try {
+    entries = JSON.parse(json)
+  } catch {
+    throw new Error(`${source} is not valid JSON`)
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`${source} must be a JSON array of site rules`)
+  }
+  return entries.map((entry) => compileRule(entry as SiteRuleConfig, source))
+}
+
+function loadSiteRules(): SiteRule[] {
+  const rules: SiteRule[] = []
+
+  // Operator rules come first so they can override a built-in one
+  if (process.env.SITE_RULES_FILE) {
+    const contents = readFileSync(process.env.SITE_RULES_FILE, 'utf8')
+    rules.push(...parseRuleList(contents, 'SITE_RULES_FILE'))
+  }
+
+  rules.push(...BUILTIN_RULES.map((entry) => compileRule(entry, 'built-in rules')))
+  return rules
+}
+
+// A broken rules file throws here, like a broken key file, instead of being ignored
+const SITE_RULES = loadSiteRules()
+
+/**
+ * The first rule whose hosts match the URL, or null
+ */
+export function findSiteRule(url: string): SiteRule | null {
+  let host: string
+  try {
+    host = normalizeHost(new URL(url).hostname)
+  } catch {
+    return null
+  }
+  return (
+    SITE_RULES.find((rule) =>
+      rule.hosts.some(
+        (pattern) =>
+          (pattern.type === 'exact' && pattern.host === host) ||
+          (pattern.type === 'wildcard' && host.endsWith(pattern.suffix))
+      )
+    ) || null
+  )
+}
+
+/**
+ * Apply the rule's first matching single-page rewrite. Rewrites that leave
+ * the URL's host are ignored, since credentials only go to the requested host.
+ */
+export function rewriteSinglePageUrl(rule: SiteRule, url: string): string {
+  const rewrite = rule.singlePage.find(({ pattern }) => pattern.test(url))
+  if (!rewrite) return url
+
+  try {
+    const rewritten = new URL(url.replace(rewrite.pattern, rewrite.replace))
+    return rewritten.host === new URL(url).host ? rewritten.href : url
+  } catch {
+    return url
+  }
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim()
+}
+
+function firstText(document: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const text = normalizeText(document.querySelector(selector)?.textContent)
+    if (text) return text
+  }
+  return null
+}
+
+function firstAuthors(document: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const names = Array.from(document.querySelectorAll(selector))
+      .map((el) => normalizeText(el.textContent))
+      .filter((name, i, all) => name && all.indexOf(name) === i)
+    if (names.length > 0) return names.join(', ')
+  }
+  return null
+}
+
+function firstDate(document: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const el = document.querySelector(selector)
+    if (!el) continue
+    const value =
+      el.getAttribute('datetime') || el.getAttribute('content') || normalizeText(el.textContent)
+    const time = Date.parse(value)
+    if (!Number.isNaN(time)) return new Date(time).toISOString()
+  }
+  return null
+}
+
+/**
+ * Apply a site rule to a page before Readability runs: strip its selectors
+ * from the document, read the title, author and date, and take the article
+ * body from the content selectors. A null `content` means none matched and
+ * Readability should run on the (stripped) document.
+ */
+export function applySiteRule(document: Document, rule: SiteRule): SiteExtraction {
+  for (const selector of rule.strip) {
+    for (const el of Array.from(document.querySelectorAll(selector))) {
+      el.remove()
+    }
+  }
+
+  const extraction: SiteExtraction = {
+    title: firstText(document, rule.title),
+    byline: firstAuthors(document, rule.author),
+    publishedTime: firstDate(document, rule.date),
+    content: null,
+    textContent: '',
+  }
+
+  for (const selector of rule.content) {
+    const matches = Array.from(document.querySelectorAll(selector))
+    // Matches nested in another match are already part of it
+    const roots = matches.filter((el) => !matches.some((other) => other !== el && other.contains(el)))
+    if (roots.length > 0) {
+      extraction.content = `<div>${roots.map((el) => el.outerHTML).join('')}</div>`
+      extraction.textContent = roots
+        .map((el) => (el.textContent || '').trim())
+        .filter(Boolean)
+        .join('\n\n')
+      break
+    }
+  }
+
+  return extraction
+}
@@ -1,17 +1,56 @@
 // SSRF Protection - validates URLs to prevent Server-Side Request Forgery
+// IP addresses are parsed into bytes and matched against CIDR ranges, so every
+// textual form (decimal, octal, hex, IPv4-mapped IPv6, NAT64, 6to4) is covered
 
-import { ErrorCodes } from './config.js'
+import { lookup } from 'node:dns/promises'
+import {
+  ALLOWED_HOSTS,
+  BLOCKED_HOSTS,
+  ALLOWED_PORTS,
+  ErrorCodes,
+  type ErrorCode,
+} from './config.js'
 
-// Private IPv4 ranges
-const PRIVATE_IPV4_RANGES = [
-  /^10\./,                          // 10.0.0.0/8
-  /^172\.(1[6-9]|2[0-9]|3[0-1])\./, // 172.16.0.0/12
-  /^192\.168\./,                    // 192.168.0.0/16
-  /^127\./,                         // 127.0.0.0/8 (loopback)
-  /^169\.254\./,                    // 169.254.0.0/16 (link-local)
-  /^0\./,                           // 0.0.0.0/8
+// Blocked IPv4 ranges (RFC 6890 special-purpose registry plus multicast/reserved)
+const BLOCKED_IPV4_CIDRS = [
+  '0.0.0.0/8', // "This network"
+  '10.0.0.0/8', // Private
+  '100.64.0.0/10', // Carrier-grade NAT
+  '127.0.0.0/8', // Loopback
+  '169.254.0.0/16', // Link-local (cloud metadata lives here)
+  '172.16.0.0/12', // Private
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.0.2.0/24', // TEST-NET-1
+  '192.88.99.0/24', // 6to4 relay anycast
+  '192.168.0.0/16', // Private
+  '198.18.0.0/15', // Benchmarking
+  '198.51.100.0/24', // TEST-NET-2
+  '203.0.113.0/24', // TEST-NET-3
+  '224.0.0.0/4', // Multicast
+  '240.0.0.0/4', // Reserved, including 255.255.255.255 broadcast
 ]
 
+// Blocked IPv6 ranges. Ranges that embed an IPv4 address (mapped, NAT64, 6to4)
+// are not listed here: the embedded address is extracted and checked instead.
+const BLOCKED_IPV6_CIDRS = [
+  '::/128', // Unspecified
+  '::1/128', // Loopback
+  '100::/64', // Discard-only
+  '2001::/32', // Teredo (tunnels to arbitrary IPv4)
+  '2001:db8::/32', // Documentation
+  'fc00::/7', // Unique local
+  'fe80::/10', // Link-local
+  'fec0::/10', // Site-local (deprecated)
+  'ff00::/8', // Multicast
+]
+
+// IPv6 ranges whose low 32 bits (or bits 16-48 for 6to4) carry an IPv4 address
+const IPV4_MAPPED = '::ffff:0:0/96'
+const IPV4_COMPATIBLE = '::/96'
+const NAT64_WELL_KNOWN = '64:ff9b::/96'
+const NAT64_LOCAL = '64:ff9b:1::/48'
+const SIX_TO_FOUR = '2002::/16'
+
 // Blocked hostnames
 const BLOCKED_HOSTNAMES = [
   'localhost',
@@ -31,29 +70,356 @@ const BLOCKED_HOSTNAME_PATTERNS = [
 export interface UrlValidationResult {
   valid: boolean
   error?: {
-    code: string
+    code: ErrorCode
     message: string
   }
   url?: URL
 }
 
-function isPrivateIPv4(ip: string): boolean {
-  return PRIVATE_IPV4_RANGES.some((pattern) => pattern.test(ip))
+export interface ResolvedAddress {
+  address: string
+  family: 4 | 6
 }
 
-function isPrivateIPv6(ip: string): boolean {
-  const normalized = ip.toLowerCase()
-  // ::1 loopback
-  if (normalized === '::1' || normalized === '[::1]') return true
-  // fc00::/7 (unique local)
-  if (normalized.startsWith('fc') || normalized.startsWith('fd')) return true
-  // fe80::/10 (link-local)
-  if (normalized.startsWith('fe80')) return true
-  return false
+// Resolves a hostname to every A/AAAA record; injectable so tests can fake DNS
+export type Resolver = (hostname: string) => Promise<ResolvedAddress[]>
+
+export interface HostResolutionResult {
+  valid: boolean
+  error?: {
+    code: ErrorCode
+    message: string
+  }
+  addresses?: ResolvedAddress[]
+}
+
+export interface ParsedIP {
+  family: 4 | 6
+  bytes: Uint8Array // 4 bytes for IPv4, 16 for IPv6
+}
+
+export interface CidrRange {
+  family: 4 | 6
+  bytes: Uint8Array
+  prefix: number
+}
+
+// Operator allowlist/denylist, compiled from ALLOWED_HOSTS / BLOCKED_HOSTS / ALLOWED_PORTS
+export interface HostPolicy {
+  allowed: HostRule[] // Empty means any public host
+  blocked: HostRule[]
+  ports: number[]
+}
+
+type HostRule =
+  | { type: 'exact'; host: string }
+  | { type: 'wildcard'; suffix: string } // `*.example.com` stored as `.example.com`
+  | { type: 'cidr'; range: CidrRange }
+
+export const defaultResolver: Resolver = async (hostname) => {
+  const records = await lookup(hostname, { all: true, verbatim: true })
+  return records.map((record) => ({
+    address: record.address,
+    family: record.family === 6 ? 6 : 4,
+  }))
+}
+
+// ============================================================================
+// Address parsing
+// ============================================================================
+
+/**
+ * Parse one component of an IPv4 address the way inet_aton does:
+ * `0x` prefix is hex, a leading `0` is octal, anything else decimal
+ */
+function parseIPv4Part(part: string): number | null {
+  if (/^0x[0-9a-f]*$/i.test(part)) {
+    return part.length === 2 ? 0 : parseInt(part.slice(2), 16)
+  }
+  if (/^0[0-7]+$/.test(part)) {
+    return parseInt(part.slice(1), 8)
+  }
+  if (/^(0|[1-9][0-9]*)$/.test(part)) {
+    return parseInt(part, 10)
+  }
+  return null
+}
+
+/**
+ * Parse an IPv4 address in any form accepted by inet_aton and URL parsers:
+ * dotted quad, shorthand (`127.1`), a single 32-bit integer (`2130706433`),
+ * and octal or hex components (`0177.0.0.1`, `0x7f.1`)
+ */
+export function parseIPv4(input: string): Uint8Array | null {
+  const parts = input.replace(/\.$/, '').split('.')
+  if (parts.length === 0 || parts.length > 4) return null
+
+  const numbers: number[] = []
+  for (const part of parts) {
+    const value = parseIPv4Part(part)
+    if (value === null || !Number.isFinite(value)) return null
+    numbers.push(value)
+  }
+
+  // Every part but the last is a single byte; the last fills the remaining bytes
+  const last = numbers.pop()!
+  if (numbers.some((n) => n > 255)) return null
+  const remainingBytes = 4 - numbers.length
+  if (last >= 2 ** (8 * remainingBytes)) return null
+
+  const bytes = new Uint8Array(4)
+  numbers.forEach((n, i) => (bytes[i] = n))
+  for (let i = 3, value = last; i >= numbers.length; i--) {
+    bytes[i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  return bytes
+}
+
+/**
+ * Parse an IPv6 address, including `::` compression, a trailing dotted IPv4
+ * part (`::ffff:127.0.0.1`) and a zone index (`fe80::1%eth0`)
+ */
+export function parseIPv6(input: string): Uint8Array | null {
+  const address = input.replace(/^\[|\]$/g, '').replace(/%.*$/, '')
+  if (!address.includes(':')) return null
+
+  const halves = address.split('::')
+  if (halves.length > 2) return null
+
+  const parseGroups = (text: string): number[] | null => {
+    if (text === '') return []
+    const groups: number[] = []
+    const pieces = text.split(':')
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i]
+      // Embedded IPv4 is only allowed as the final piece
+      if (i === pieces.length - 1 && piece.includes('.')) {
+        if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(piece)) return null
+        const v4 = parseIPv4(piece)
+        if (!v4) return null
+        groups.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3])
+        continue
+      }
+      if (!/^[0-9a-f]{1,4}$/i.test(piece)) return null
+      groups.push(parseInt(piece, 16))
+    }
+    return groups
+  }
+
+  const head = parseGroups(halves[0])
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : []
+  if (!head || !tail) return null
+
+  let groups: number[]
+  if (halves.length === 2) {
+    const missing = 8 - head.length - tail.length
+    if (missing < 1) return null
+    groups = [...head, ...new Array(missing).fill(0), ...tail]
+  } else {
+    groups = head
+  }
+  if (groups.length !== 8) return null
+
+  const bytes = new Uint8Array(16)
+  groups.forEach((group, i) => {
+    bytes[i * 2] = group >> 8
+    bytes[i * 2 + 1] = group & 0xff
+  })
+  return bytes
 }
 
+/**
+ * Parse a hostname or address string into an IP, or null if it isn't one
+ */
+export function parseIP(input: string): ParsedIP | null {
+  const host = input.trim().toLowerCase()
+  if (host.includes(':') || host.startsWith('[')) {
+    const bytes = parseIPv6(host)
+    return bytes ? { family: 6, bytes } : null
+  }
+  const bytes = parseIPv4(host)
+  return bytes ? { family: 4, bytes } : null
+}
+
+export function formatIP(ip: ParsedIP): string {
+  if (ip.family === 4) {
+    return Array.from(ip.bytes).join('.')
+  }
+  const groups: string[] = []
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((ip.bytes[i] << 8) | ip.bytes[i + 1]).toString(16))
+  }
+  return groups.join(':')
+}
+
+// ============================================================================
+// CIDR matching
+// ============================================================================
+
+/**
+ * Parse a CIDR range such as `10.0.0.0/8` or `fc00::/7`.
+ * A bare address is treated as a single-host range.
+ */
+export function parseCidr(input: string): CidrRange | null {
+  const [address, prefixText, ...rest] = input.trim().split('/')
+  if (rest.length > 0) return null
+
+  const ip = parseIP(address)
+  if (!ip) return null
+
+  const maxPrefix = ip.family === 4 ? 32 : 128
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null
+
+  return { family: ip.family, bytes: ip.bytes, prefix }
+}
+
+export function cidrContains(range: CidrRange, ip: ParsedIP): boolean {
+  if (range.family !== ip.family) return false
+
+  const fullBytes = Math.floor(range.prefix / 8)
+  for (let i = 0; i < fullBytes; i++) {
+    if (range.bytes[i] !== ip.bytes[i]) return false
+  }
+
+  const remainingBits = range.prefix % 8
+  if (remainingBits === 0) return true
+  const mask = (0xff << (8 - remainingBits)) & 0xff
+  return (range.bytes[fullBytes] & mask) === (ip.bytes[fullBytes] & mask)
+}
+
+function compileCidrs(cidrs: string[]): CidrRange[] {
+  return cidrs.map((cidr) => {
+    const range = parseCidr(cidr)
+    if (!range) throw new Error(`Invalid CIDR in SSRF policy: ${cidr}`)
+    return range
+  })
+}
+
+const BLOCKED_IPV4_RANGES = compileCidrs(BLOCKED_IPV4_CIDRS)
+const BLOCKED_IPV6_RANGES = compileCidrs(BLOCKED_IPV6_CIDRS)
+const [MAPPED_RANGE, COMPATIBLE_RANGE, NAT64_RANGE, NAT64_LOCAL_RANGE, SIX_TO_FOUR_RANGE] =
+  compileCidrs([IPV4_MAPPED, IPV4_COMPATIBLE, NAT64_WELL_KNOWN, NAT64_LOCAL, SIX_TO_FOUR])
+
+/**
+ * Extract the IPv4 address embedded in an IPv6 address, if it has one
+ */
+function embeddedIPv4(ip: ParsedIP): ParsedIP | null {
+  if (ip.family !== 6) return null
+
+  if (
+    cidrContains(MAPPED_RANGE, ip) ||
+    cidrContains(NAT64_RANGE, ip) ||
+    cidrContains(NAT64_LOCAL_RANGE, ip) ||
+    // Deprecated IPv4-compatible form; :: and ::1 land in 0.0.0.0/8 and stay blocked
+    cidrContains(COMPATIBLE_RANGE, ip)
+  ) {
+    return { family: 4, bytes: ip.bytes.slice(12, 16) }
+  }
+
+  if (cidrContains(SIX_TO_FOUR_RANGE, ip)) {
+    return { family: 4, bytes: ip.bytes.slice(2, 6) }
+  }
+
+  return null
+}
+
+/**
+ * Reduce an address to the form the policy is checked against: IPv6
+ * addresses that embed an IPv4 address become that IPv4 address
+ */
+export function canonicalizeIP(ip: ParsedIP): ParsedIP {
+  return embeddedIPv4(ip) || ip
+}
+
+/**
+ * Check whether an address falls in any private, reserved or special-purpose range
+ */
+export function isBlockedIP(ip: ParsedIP): boolean {
+  const canonical = canonicalizeIP(ip)
+  const ranges = canonical.family === 4 ? BLOCKED_IPV4_RANGES : BLOCKED_IPV6_RANGES
+  return ranges.some((range) => cidrContains(range, canonical))
+}
+
+// ============================================================================
+// Operator host policy
+// ============================================================================
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+}
+
+/**
+ * Compile a host rule: `*.example.com` is a wildcard matching any subdomain
+ * (but not example.com itself), an IP or `addr/prefix` is a CIDR range, and
+ * anything else is an exact hostname
+ */
+function compileHostRule(entry: string, source: string): HostRule {
+  const rule = entry.trim().toLowerCase()
+
+  if (rule.startsWith('*.')) {
+    return { type: 'wildcard', suffix: normalizeHost(rule.slice(1)) }
+  }
+
+  const range = parseCidr(rule)
+  if (range) {
+    return { type: 'cidr', range }
+  }
+  if (rule.includes('/')) {
+    throw new Error(`Invalid CIDR range in ${source}: ${entry}`)
+  }
+
+  return { type: 'exact', host: normalizeHost(rule) }
+}
+
+export function createHostPolicy(options: {
+  allowedHosts?: string[]
+  blockedHosts?: string[]
+  allowedPorts?: number[]
+}): HostPolicy {
+  return {
+    allowed: (options.allowedHosts || []).map((entry) => compileHostRule(entry, 'ALLOWED_HOSTS')),
+    blocked: (options.blockedHosts || []).map((entry) => compileHostRule(entry, 'BLOCKED_HOSTS')),
+    ports: options.allowedPorts || [80, 443],
+  }
+}
+
+const hostPolicy = createHostPolicy({
+  allowedHosts: ALLOWED_HOSTS,
+  blockedHosts: BLOCKED_HOSTS,
+  allowedPorts: ALLOWED_PORTS,
+})
+
+function matchesHostName(rules: HostRule[], hostname: string): boolean {
+  const host = normalizeHost(hostname)
+  return rules.some(
+    (rule) =>
+      (rule.type === 'exact' && rule.host === host) ||
+      (rule.type === 'wildcard' && host.endsWith(rule.suffix))
+  )
+}
+
+function matchesHostAddress(rules: HostRule[], ip: ParsedIP): boolean {
+  const canonical = canonicalizeIP(ip)
+  return rules.some(
+    (rule) =>
+      rule.type === 'cidr' &&
+      (cidrContains(rule.range, ip) || cidrContains(rule.range, canonical))
+  )
+}
+
+function hasCidrRules(rules: HostRule[]): boolean {
+  return rules.some((rule) => rule.type === 'cidr')
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
 function isBlockedHostname(hostname: string): boolean {
-  const lower = hostname.toLowerCase()
+  // "localhost." is the same name as "localhost"
+  const lower = hostname.toLowerCase().replace(/\.$/, '')
 
   // Direct match
   if (BLOCKED_HOSTNAMES.includes(lower)) return true
@@ -64,15 +430,14 @@ function isBlockedHostname(hostname: string): boolean {
   return false
 }
 
-function looksLikeIP(hostname: string): boolean {
-  // IPv4
-  if (/^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostname)) return true
-  // IPv6 (with or without brackets)
-  if (hostname.includes(':') || hostname.startsWith('[')) return true
-  return false
-}
-
-export function validateUrl(urlString: string): UrlValidationResult {
+/**
+ * Validate a URL before it is requested. Built-in private range checks always
+ * apply; the operator host policy can only narrow what is allowed, never widen it.
+ */
+export function validateUrl(
+  urlString: string,
+  policy: HostPolicy = hostPolicy
+): UrlValidationResult {
   // Parse the URL
   let url: URL
   try {
@@ -98,6 +463,22 @@ export function validateUrl(urlString: string): UrlValidationResult {
     }
   }
 
+  // Port check
+  const port = url.port
+    ? parseInt(url.port, 10)
+    : url.protocol === 'https:'
+      ? 443
+      : 80
+  if (!policy.ports.includes(port)) {
+    return {
+      valid: false,
+      error: {
+        code: ErrorCodes.BLOCKED_URL,
+        message: `URL port ${port} is not allowed`,
+      },
+    }
+  }
+
   const hostname = url.hostname.toLowerCase()
 
   // Check blocked hostnames
@@ -111,30 +492,132 @@ export function validateUrl(urlString: string): UrlValidationResult {
     }
   }
 
-  // If hostname looks like an IP, validate it
-  if (looksLikeIP(hostname)) {
-    const cleanIP = hostname.replace(/^\[|\]$/g, '') // Remove IPv6 brackets
+  // If the hostname is an IP in any encoding, canonicalize and check it
+  const ip = parseIP(hostname)
+  if (ip && isBlockedIP(ip)) {
+    return {
+      valid: false,
+      error: {
+        code: ErrorCodes.BLOCKED_URL,
+        message:
+          canonicalizeIP(ip).family === 4
+            ? 'URL points to a private IP address'
+            : 'URL points to a private IPv6 address',
+      },
+    }
+  }
+
+  // Operator blocklist
+  if (matchesHostName(policy.blocked, hostname) || (ip && matchesHostAddress(policy.blocked, ip))) {
+    return {
+      valid: false,
+      error: {
+        code: ErrorCodes.BLOCKED_URL,
+        message: 'URL host is blocked by the proxy operator',
+      },
+    }
+  }
+
+  // Operator allowlist. A hostname that only CIDR rules could allow is
+  // checked again against its resolved addresses in resolveHost.
+  if (policy.allowed.length > 0 && !matchesHostName(policy.allowed, hostname)) {
+    const allowedByAddress = ip
+      ? matchesHostAddress(policy.allowed, ip)
+      : hasCidrRules(policy.allowed)
+    if (!allowedByAddress) {
+      return {
+        valid: false,
+        error: {
+          code: ErrorCodes.BLOCKED_URL,
+          message: 'URL host is not on the proxy allowlist',
+        },
+      }
+    }
+  }
+
+  return { valid: true, url }
+}
+
+/**
+ * Resolve a hostname and check every returned address against the private
+ * range rules. The vetted addresses are returned so the caller can pin the
+ * connection to them, closing the DNS rebinding window between check and connect.
+ */
+export async function resolveHost(
+  hostname: string,
+  resolver: Resolver = defaultResolver,
+  policy: HostPolicy = hostPolicy
+): Promise<HostResolutionResult> {
+  const host = normalizeHost(hostname)
+
+  // IP literals were already checked by validateUrl, no lookup needed
+  const literal = parseIP(host)
+  if (literal) {
+    return {
+      valid: true,
+      addresses: [{ address: formatIP(literal), family: literal.family }],
+    }
+  }
+
+  let addresses: ResolvedAddress[]
+  try {
+    addresses = await resolver(host)
+  } catch {
+    return {
+      valid: false,
+      error: {
+        code: ErrorCodes.FETCH_FAILED,
+        message: `Could not resolve host ${host}`,
+      },
+    }
+  }
+
+  if (addresses.length === 0) {
+    return {
+      valid: false,
+      error: {
+        code: ErrorCodes.FETCH_FAILED,
+        message: `Could not resolve host ${host}`,
+      },
+    }
+  }
+
+  // Names matched by an allowlist host rule don't need an address match too
+  const checkAllowedAddress =
+    policy.allowed.length > 0 && !matchesHostName(policy.allowed, host)
+
+  for (const { address } of addresses) {
+    const ip = parseIP(address)
+    if (!ip || isBlockedIP(ip)) {
+      return {
+        valid: false,
+        error: {
+          code: ErrorCodes.BLOCKED_URL,
+          message: `Host ${host} resolves to a private IP address`,
+        },
+      }
+    }
 
-    if (isPrivateIPv4(cleanIP)) {
+    if (matchesHostAddress(policy.blocked, ip)) {
       return {
         valid: false,
         error: {
           code: ErrorCodes.BLOCKED_URL,
-          message: 'URL points to a private IP address',
+          message: `Host ${host} resolves to an address blocked by the proxy operator`,
         },
       }
     }
 
-    if (isPrivateIPv6(cleanIP)) {
+    if (checkAllowedAddress && !matchesHostAddress(policy.allowed, ip)) {
       return {
         valid: false,
         error: {
           code: ErrorCodes.BLOCKED_URL,
-          message: 'URL points to a private IPv6 address',
+          message: `Host ${host} resolves to an address outside the proxy allowlist`,
         },
       }
     }
   }
 
-  return { valid: true, url }
+  return { valid: true, addresses }
 }
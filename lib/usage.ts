@@ -0,0 +1,314 @@
+// Usage metering - per-key, per-endpoint counters with daily and monthly rollups
+// Counters live in a pluggable store: in-memory for a single instance, Redis for several
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { VercelResponse } from '@vercel/node'
+import { MONTHLY_QUOTA_PER_KEY, USAGE_STORE, REDIS_URL } from './config.js'
+import type { AuthResult, Endpoint } from './auth.js'
+import { getRedisClient, type RedisClient } from './redis.js'
+
+// Requests made without an API key (auth disabled) are metered under this name
+export const ANONYMOUS_CLIENT = 'anonymous'
+
+// Pseudo-endpoint holding the sum over all endpoints
+const TOTAL = '_total'
+
+const DAY_TTL_SECONDS = 90 * 24 * 60 * 60
+const MONTH_TTL_SECONDS = 400 * 24 * 60 * 60
+
+export type UsageCounters = Record<string, number>
+
+export interface UsageStore {
+  increment(key: string, counters: UsageCounters, ttlSeconds: number): Promise<void>
+  read(key: string): Promise<UsageCounters>
+  addClient(client: string): Promise<void>
+  listClients(): Promise<string[]>
+}
+
+export interface UsageSummary {
+  requests: number
+  errors: number
+  error_codes: Record<string, number>
+  upstream_requests: number
+  upstream_bytes: number
+  average_upstream_latency_ms: number | null
+}
+
+export interface QuotaStatus {
+  limit: number
+  used: number
+  remaining: number
+  exceeded: boolean
+}
+
+// Per-request meter, reachable from shared helpers through AsyncLocalStorage
+interface RequestMeter {
+  requests: number // Units counted against the quota, one per upstream fetch asked for
+  upstreamRequests: number
+  upstreamBytes: number
+  upstreamMs: number
+}
+
+const meterStorage = new AsyncLocalStorage<RequestMeter>()
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export function createMemoryUsageStore(): UsageStore {
+  const counters = new Map<string, { values: UsageCounters; expiresAt: number }>()
+  const clients = new Set<string>()
+
+  return {
+    async increment(key, values, ttlSeconds) {
+      const now = Date.now()
+      let entry = counters.get(key)
+      if (!entry || entry.expiresAt <= now) {
+        entry = { values: {}, expiresAt: now + ttlSeconds * 1000 }
+        counters.set(key, entry)
+      }
+      for (const [field, amount] of Object.entries(values)) {
+        entry.values[field] = (entry.values[field] || 0) + amount
+      }
+    },
+    async read(key) {
+      const entry = counters.get(key)
+      return entry && entry.expiresAt > Date.now() ? { ...entry.values } : {}
+    },
+    async addClient(client) {
+      clients.add(client)
+    },
+    async listClients() {
+      return Array.from(clients)
+    },
+  }
+}
+
+export function createRedisUsageStore(client: RedisClient, prefix = 'bab:usage:'): UsageStore {
+  return {
+    async increment(key, values, ttlSeconds) {
+      // Commands are written immediately and pipelined, so nothing waits on Redis
+      const writes = Object.entries(values).map(([field, amount]) =>
+        client.command(['HINCRBY', prefix + key, field, Math.round(amount)])
+      )
+      writes.push(client.command(['EXPIRE', prefix + key, ttlSeconds]))
+      await Promise.all(writes)
+    },
+    async read(key) {
+      const reply = (await client.command(['HGETALL', prefix + key])) as string[] | null
+      const values: UsageCounters = {}
+      for (let i = 0; reply && i < reply.length; i += 2) {
+        values[reply[i]] = parseInt(reply[i + 1], 10)
+      }
+      return values
+    },
+    async addClient(name) {
+      await client.command(['SADD', `${prefix}clients`, name])
+    },
+    async listClients() {
+      return ((await client.command(['SMEMBERS', `${prefix}clients`])) as string[] | null) || []
+    },
+  }
+}
+
+let defaultStore: UsageStore | null = null
+
+export function getUsageStore(): UsageStore {
+  if (!defaultStore) {
+    defaultStore =
+      USAGE_STORE === 'redis' ? createRedisUsageStore(getRedisClient(REDIS_URL)) : createMemoryUsageStore()
+  }
+  return defaultStore
+}
+
+// ============================================================================
+// Periods and keys
+// ============================================================================
+
+export function dayPeriod(date: Date): string {
+  return date.toISOString().slice(0, 10) // YYYY-MM-DD (UTC)
+}
+
+export function monthPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7) // YYYY-MM (UTC)
+}
+
+function counterKey(period: string, client: string, endpoint: string): string {
+  return `${period}:${client}:${endpoint}`
+}
+
+function clientName(auth: AuthResult): string {
+  return auth.client || ANONYMOUS_CLIENT
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record upstream traffic for the request currently being handled.
+ * Called from the shared HTTP helpers; a no-op outside a metered request.
+ */
+export function recordUpstream(usage: { latencyMs?: number; bytes?: number }): void {
+  const meter = meterStorage.getStore()
+  if (!meter) return
+  if (usage.latencyMs !== undefined) {
+    meter.upstreamRequests += 1
+    meter.upstreamMs += usage.latencyMs
+  }
+  if (usage.bytes !== undefined) {
+    meter.upstreamBytes += usage.bytes
+  }
+}
+
+/**
+ * Count the request currently being handled as `units` requests, for
+ * endpoints such as /fetch/batch that fetch several URLs in one call.
+ * A no-op outside a metered request.
+ */
+export function chargeRequests(units: number): void {
+  const meter = meterStorage.getStore()
+  if (meter) meter.requests = units
+}
+
+/**
+ * Start metering a request. The counters are written when the response ends,
+ * using the status code and the `error.code` of the JSON body, if any.
+ */
+export function startUsage(
+  res: VercelResponse,
+  endpoint: Endpoint,
+  auth: AuthResult,
+  store: UsageStore = getUsageStore()
+): void {
+  const meter: RequestMeter = { requests: 1, upstreamRequests: 0, upstreamBytes: 0, upstreamMs: 0 }
+  meterStorage.enterWith(meter)
+
+  let errorCode: string | null = null
+  const originalJson = res.json.bind(res)
+  res.json = (body: unknown) => {
+    const error = (body as { error?: { code?: unknown } } | null)?.error
+    if (error && typeof error.code === 'string') {
+      errorCode = error.code
+    }
+    return originalJson(body)
+  }
+
+  let recorded = false
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => VercelResponse
+  res.end = ((...args: unknown[]) => {
+    if (!recorded) {
+      recorded = true
+      const isError = errorCode !== null || res.statusCode >= 400
+      const counters: UsageCounters = {
+        requests: meter.requests,
+        errors: isError ? 1 : 0,
+        upstream_requests: meter.upstreamRequests,
+        upstream_bytes: meter.upstreamBytes,
+        upstream_ms: Math.round(meter.upstreamMs),
+      }
+      if (isError) {
+        counters[`error:${errorCode || `HTTP_${res.statusCode}`}`] = 1
+      }
+
+      // Writes are issued before the response is sent; failures must not affect it
+      recordCounters(store, clientName(auth), endpoint, counters).catch(() => {})
+    }
+    return originalEnd(...args)
+  }) as typeof res.end
+}
+
+async function recordCounters(
+  store: UsageStore,
+  client: string,
+  endpoint: Endpoint,
+  counters: UsageCounters
+): Promise<void> {
+  const now = new Date()
+  const day = `d:${dayPeriod(now)}`
+  const month = `m:${monthPeriod(now)}`
+
+  await Promise.all([
+    store.addClient(client),
+    store.increment(counterKey(day, client, endpoint), counters, DAY_TTL_SECONDS),
+    store.increment(counterKey(day, client, TOTAL), counters, DAY_TTL_SECONDS),
+    store.increment(counterKey(month, client, endpoint), counters, MONTH_TTL_SECONDS),
+    store.increment(counterKey(month, client, TOTAL), counters, MONTH_TTL_SECONDS),
+  ])
+}
+
+// ============================================================================
+// Reporting and quotas
+// ============================================================================
+
+export function summarize(counters: UsageCounters): UsageSummary {
+  const errorCodes: Record<string, number> = {}
+  for (const [field, value] of Object.entries(counters)) {
+    if (field.startsWith('error:')) {
+      errorCodes[field.slice('error:'.length)] = value
+    }
+  }
+
+  const upstreamRequests = counters.upstream_requests || 0
+  return {
+    requests: counters.requests || 0,
+    errors: counters.errors || 0,
+    error_codes: errorCodes,
+    upstream_requests: upstreamRequests,
+    upstream_bytes: counters.upstream_bytes || 0,
+    average_upstream_latency_ms:
+      upstreamRequests > 0 ? Math.round((counters.upstream_ms || 0) / upstreamRequests) : null,
+  }
+}
+
+/**
+ * Read one period's usage for a client, in total and broken down by endpoint
+ */
+export async function readUsage(
+  period: string,
+  client: string,
+  endpoints: Endpoint[],
+  store: UsageStore = getUsageStore()
+): Promise<{ total: UsageSummary; endpoints: Record<string, UsageSummary> }> {
+  const [total, ...perEndpoint] = await Promise.all([
+    store.read(counterKey(period, client, TOTAL)),
+    ...endpoints.map((endpoint) => store.read(counterKey(period, client, endpoint))),
+  ])
+
+  const byEndpoint: Record<string, UsageSummary> = {}
+  endpoints.forEach((endpoint, i) => {
+    if (perEndpoint[i].requests) {
+      byEndpoint[endpoint] = summarize(perEndpoint[i])
+    }
+  })
+
+  return { total: summarize(total), endpoints: byEndpoint }
+}
+
+/**
+ * Check the client's requests this month against its hard quota.
+ * Returns null when no quota applies. If the store is unreachable the
+ * request is let through rather than failing closed.
+ */
+export async function checkQuota(
+  auth: AuthResult,
+  store: UsageStore = getUsageStore()
+): Promise<QuotaStatus | null> {
+  const limit = auth.monthlyQuota ?? MONTHLY_QUOTA_PER_KEY
+  if (!auth.client || limit <= 0) return null
+
+  let counters: UsageCounters
+  try {
+    counters = await store.read(counterKey(`m:${monthPeriod(new Date())}`, auth.client, TOTAL))
+  } catch {
+    return null
+  }
+
+  const used = counters.requests || 0
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    exceeded: used >= limit,
+  }
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VercelRequest } from '@vercel/node'
+
+vi.hoisted(() => {
+  process.env.BAB_API_KEYS = JSON.stringify([
+    // A rotation: the old key stays valid until it expires, alongside its replacement
+    { name: 'alice-2025', key: 'alice-old', expires: '2026-11-01T00:00:00Z' },
+    { name: 'alice-2026', key: 'alice-new' },
+    // One secret under two entries, each scoped to different endpoints
+    { name: 'shared-reader', key: 'shared', endpoints: ['fetch', 'parse'], rateLimit: 10 },
+    { name: 'shared-images', key: 'shared', endpoints: ['image'], monthlyQuota: 500 },
+    // The same secret again, expired, listed before a live entry
+    { name: 'stale', key: 'renewed', expires: '2026-01-01T00:00:00Z' },
+    { name: 'renewed', key: 'renewed' },
+    // Stored as a SHA-256 hash, with and without the prefix
+    {
+      name: 'hashed',
+      hash: 'sha256:4E598F5DAAFC2FDA61641DDBB5956DEB23FDE6616366DC9DD5A7C9F47DA4D787',
+      endpoints: ['fetch', 'discover'],
+    },
+    {
+      name: 'hashed-admin',
+      hash: '4e598f5daafc2fda61641ddbb5956deb23fde6616366dc9dd5a7c9f47da4d787',
+      endpoints: ['usage'],
+      admin: true,
+    },
+    { name: 'expired', key: 'expired-key', endpoints: ['fetch'], expires: '2026-10-01T00:00:00Z' },
+  ])
+})
+
+const { validateAuth } = await import('../lib/auth.js')
+
+function request(apiKey?: string | string[]): VercelRequest {
+  return {
+    method: 'GET',
+    headers: apiKey === undefined ? {} : { 'x-api-key': apiKey },
+    query: {},
+  } as unknown as VercelRequest
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('validateAuth', () => {
+  it.each([
+    // Key, endpoint, client or error status
+    ['alice-old', 'fetch', 'alice-2025'],
+    ['alice-new', 'fetch', 'alice-2026'],
+    ['shared', 'fetch', 'shared-reader'],
+    ['shared', 'image', 'shared-images'], // The entry scoped to this endpoint
+    ['shared', 'raw', 403],
+    ['renewed', 'fetch', 'renewed'], // The live entry, not the expired one listed first
+    ['hashed-secret', 'discover', 'hashed'], // Uppercase hash with a prefix
+    ['hashed-secret', 'usage', 'hashed-admin'], // Bare hash
+    ['expired-key', 'fetch', 401],
+    ['expired-key', 'parse', 401], // Reported as expired before scope
+    ['unknown', 'fetch', 401],
+    ['', 'fetch', 401],
+  ] as const)('%j on %s → %s', (key, endpoint, expected) => {
+    const result = validateAuth(request(key), endpoint)
+    if (typeof expected === 'string') {
+      expect(result).toMatchObject({ authenticated: true, client: expected })
+    } else {
+      expect(result).toMatchObject({ authenticated: false, status: expected })
+    }
+  })
+
+  it.each([
+    ['a missing key', undefined, 'Invalid or missing API key'],
+    ['a wrong key', 'wrong', 'Invalid or missing API key'],
+    ['an expired key', 'expired-key', 'API key has expired'],
+    ['a key out of scope', 'shared', 'API key is not allowed to access raw'],
+  ])('explains %s', (_name, key, error) => {
+    expect(validateAuth(request(key), 'raw').error).toBe(error)
+  })
+
+  it('stops accepting the old key of a rotation once it expires', () => {
+    vi.setSystemTime(new Date('2026-11-01T00:00:00Z'))
+    expect(validateAuth(request('alice-old'), 'fetch')).toMatchObject({ authenticated: false, status: 401 })
+    expect(validateAuth(request('alice-new'), 'fetch')).toMatchObject({ authenticated: true })
+  })
+
+  it('passes on the limits and admin flag of the matching entry', () => {
+    expect(validateAuth(request('shared'), 'parse')).toEqual({
+      authenticated: true,
+      client: 'shared-reader',
+      rateLimit: 10,
+      monthlyQuota: null,
+      admin: false,
+    })
+    expect(validateAuth(request('shared'), 'image')).toMatchObject({ rateLimit: null, monthlyQuota: 500 })
+  })
+
+  it('takes the admin flag from the entry scoped to the endpoint', () => {
+    expect(validateAuth(request('hashed-secret'), 'fetch')).toMatchObject({ admin: false })
+    expect(validateAuth(request('hashed-secret'), 'usage')).toMatchObject({ admin: true })
+  })
+
+  it('uses the first of repeated X-API-Key headers', () => {
+    expect(validateAuth(request(['alice-new', 'wrong']), 'fetch')).toMatchObject({ client: 'alice-2026' })
+  })
+
+  it('rejects a signature query when signing is disabled', () => {
+    const query = { url: 'https://example.com/', exp: '9999999999', sig: 'x' }
+    const req = { method: 'GET', headers: {}, query } as unknown as VercelRequest
+    expect(validateAuth(req, 'fetch')).toMatchObject({
+      authenticated: false,
+      error: 'Invalid or expired signature',
+      status: 401,
+    })
+  })
+})
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SafeFetchOptions } from '../lib/http.js'
+
+// The origin behind the mocked safeFetch: each call is recorded and answered
+// by `respond`, which may also throw like a failed connection
+const origin = vi.hoisted(() => ({
+  calls: [] as Array<Record<string, string>>,
+  respond: (_headers: Record<string, string>): Response => new Response('body'),
+}))
+
+vi.mock('../lib/http.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/http.js')>()),
+  safeFetch: async (url: string, options: SafeFetchOptions) => {
+    const headers = options.headers || {}
+    origin.calls.push(headers)
+    return { response: origin.respond(headers), url, redirects: [], attempts: 1 }
+  },
+}))
+
+const { cachedFetch, createMemoryCacheStore } = await import('../lib/cache.js')
+const { ProxyError } = await import('../lib/errors.js')
+
+const FEED_URL = 'https://example.com/feed.xml'
+const START = new Date('2026-10-19T12:00:00Z')
+
+function reply(body: string, headers: Record<string, string>, status = 200): Response {
+  return new Response(status === 304 ? null : body, {
+    status,
+    headers: { date: new Date(Date.now()).toUTCString(), ...headers },
+  })
+}
+
+let store: ReturnType<typeof createMemoryCacheStore>
+
+async function get(options: { headers?: Record<string, string>; maxBytes?: number; credentials?: Record<string, string> } = {}) {
+  const result = await cachedFetch(FEED_URL, { timeout: 5000, maxBytes: 1024 * 1024, store, ...options })
+  return { ...result, text: new TextDecoder().decode(result.body) }
+}
+
+function later(seconds: number): void {
+  vi.setSystemTime(Date.now() + seconds * 1000)
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(START)
+  store = createMemoryCacheStore()
+  origin.calls.length = 0
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('cachedFetch freshness', () => {
+  it.each([
+    ['max-age', { 'cache-control': 'max-age=60' }, 59, 'HIT'],
+    ['max-age, expired', { 'cache-control': 'max-age=60, must-revalidate' }, 61, 'MISS'],
+    ['s-maxage over max-age', { 'cache-control': 'max-age=10, s-maxage=300' }, 120, 'HIT'],
+    ['no-cache', { 'cache-control': 'no-cache', etag: '"v1"' }, 0, 'MISS'],
+    ['Expires', { expires: new Date(START.getTime() + 30_000).toUTCString() }, 20, 'HIT'],
+    ['invalid Expires', { expires: 'soon', etag: '"v1"' }, 0, 'STALE'], // Already stale
+    // A tenth of the time since Last-Modified: 100 minutes old, so 10 minutes fresh
+    ['Last-Modified heuristic', { 'last-modified': new Date(START.getTime() - 6_000_000).toUTCString() }, 500, 'HIT'],
+  ])('%s', async (_name, headers, wait, status) => {
+    origin.respond = () => reply('v1', headers)
+    expect((await get()).cache).toBe('MISS')
+
+    later(wait)
+    origin.respond = () => reply('v2', { 'cache-control': 'max-age=60' })
+    expect((await get()).cache).toBe(status)
+  })
+
+  it.each([
+    ['no-store', { 'cache-control': 'no-store, max-age=60' }, 200],
+    ['private', { 'cache-control': 'private, max-age=60' }, 200],
+    ['Vary: *', { 'cache-control': 'max-age=60', vary: '*' }, 200],
+    ['an error status', { 'cache-control': 'max-age=60' }, 404],
+  ])('does not store a response with %s', async (_name, headers, status) => {
+    origin.respond = () => reply('v1', headers, status)
+    await get()
+    await get()
+    expect(origin.calls).toHaveLength(2)
+  })
+
+  it('reports the age of a cached response', async () => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=60' })
+    await get()
+    later(42)
+    const hit = await get()
+    expect(hit.response.headers.get('age')).toBe('42')
+    expect(hit.attempts).toBe(0)
+  })
+})
+
+describe('cachedFetch revalidation', () => {
+  it('revalidates with the stored ETag and serves the stored body after a 304', async () => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=10, must-revalidate', etag: '"v1"' })
+    await get()
+
+    later(20)
+    origin.respond = () => reply('', { 'cache-control': 'max-age=100' }, 304)
+    const revalidated = await get()
+
+    expect(origin.calls[1]['If-None-Match']).toBe('"v1"')
+    expect(revalidated).toMatchObject({ cache: 'HIT', text: 'v1' })
+    expect(revalidated.response.headers.get('cache-control')).toBe('max-age=100')
+
+    later(50)
+    expect((await get()).cache).toBe('HIT') // Fresh again under the refreshed headers
+    expect(origin.calls).toHaveLength(2)
+  })
+
+  it('revalidates with Last-Modified when there is no ETag', async () => {
+    const lastModified = new Date(START.getTime() - 60_000).toUTCString()
+    origin.respond = () => reply('v1', { 'cache-control': 'no-cache', 'last-modified': lastModified })
+    await get()
+
+    origin.respond = () => reply('v2', { 'cache-control': 'no-cache' })
+    const replaced = await get()
+
+    expect(origin.calls[1]['If-Modified-Since']).toBe(lastModified)
+    expect(replaced).toMatchObject({ cache: 'MISS', text: 'v2' })
+  })
+
+  it('answers the client’s own conditional headers from the cache', async () => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=60', etag: 'W/"v1"' })
+    await get()
+
+    const notModified = await get({ headers: { 'If-None-Match': '"v1"' } })
+    expect(notModified.response.status).toBe(304)
+    expect(notModified.body.byteLength).toBe(0)
+
+    const modified = await get({ headers: { 'If-None-Match': '"v0"' } })
+    expect(modified.response.status).toBe(200)
+    expect(origin.calls).toHaveLength(1)
+  })
+})
+
+describe('cachedFetch stale responses', () => {
+  it('serves stale while revalidating in the background', async () => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=10, stale-while-revalidate=60', etag: '"v1"' })
+    await get()
+
+    later(30)
+    origin.respond = () => reply('v2', { 'cache-control': 'max-age=10', etag: '"v2"' })
+    const stale = await get()
+    expect(stale).toMatchObject({ cache: 'STALE', text: 'v1' })
+
+    await vi.waitFor(async () => expect((await get()).text).toBe('v2'))
+    expect(origin.calls[1]['If-None-Match']).toBe('"v1"')
+  })
+
+  it('revalidates in the foreground once past stale-while-revalidate', async () => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=10, stale-while-revalidate=5', etag: '"v1"' })
+    await get()
+
+    later(30)
+    origin.respond = () => reply('v2', { 'cache-control': 'max-age=10' })
+    expect(await get()).toMatchObject({ cache: 'MISS', text: 'v2' })
+  })
+
+  it.each([
+    ['a 5xx', () => reply('oops', {}, 503)],
+    [
+      'a connection error',
+      () => {
+        throw new TypeError('fetch failed')
+      },
+    ],
+  ])('serves stale within stale-if-error when the origin returns %s', async (_name, failure) => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=10, stale-if-error=300', etag: '"v1"' })
+    await get()
+
+    later(100)
+    origin.respond = failure
+    expect(await get()).toMatchObject({ cache: 'STALE', text: 'v1' })
+  })
+
+  it('passes the failure on once past stale-if-error', async () => {
+    origin.respond = () => reply('v1', { 'cache-control': 'max-age=10, stale-if-error=30', etag: '"v1"' })
+    await get()
+
+    later(100)
+    origin.respond = () => reply('oops', {}, 503)
+    const failed = await get()
+    expect(failed.response.status).toBe(503)
+    expect(failed.cache).toBe('MISS')
+  })
+
+  it('never serves stale under must-revalidate', async () => {
+    origin.respond = () =>
+      reply('v1', { 'cache-control': 'max-age=10, must-revalidate, stale-if-error=300', etag: '"v1"' })
+    await get()
+
+    later(100)
+    origin.respond = () => reply('oops', {}, 503)
+    expect((await get()).response.status).toBe(503)
+  })
+})
+
+describe('cachedFetch bypasses and limits', () => {
+  it('neither reads nor stores responses fetched with credentials', async () => {
+    origin.respond = () => reply('public', { 'cache-control': 'max-age=60' })
+    await get()
+
+    origin.respond = () => reply('private', { 'cache-control': 'max-age=60' })
+    const withCredentials = await get({ credentials: { Authorization: 'Bearer secret' } })
+    expect(withCredentials).toMatchObject({ cache: 'MISS', text: 'private' })
+
+    expect((await get()).text).toBe('public')
+    expect(origin.calls).toHaveLength(2)
+  })
+
+  it('keys entries by the request headers sent upstream', async () => {
+    origin.respond = (headers) => reply(headers.Accept || 'none', { 'cache-control': 'max-age=60' })
+    await get({ headers: { Accept: 'application/rss+xml' } })
+    expect((await get({ headers: { Accept: 'text/html' } })).text).toBe('text/html')
+    expect((await get({ headers: { accept: 'application/rss+xml' } })).cache).toBe('HIT')
+  })
+
+  it('applies the caller’s size limit to a body cached under a larger one', async () => {
+    origin.respond = () => reply('x'.repeat(2048), { 'cache-control': 'max-age=60' })
+    await get({ maxBytes: 4096 })
+
+    const error = await get({ maxBytes: 1024 }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(ProxyError)
+    expect((error as InstanceType<typeof ProxyError>).code).toBe('CONTENT_TOO_LARGE')
+    expect(origin.calls).toHaveLength(1)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+vi.hoisted(() => {
+  process.env.ALLOWED_ORIGINS = [
+    'https://app.example.com',
+    'https://*.example.org',
+    'http://localhost:3000',
+    'chrome-extension://abcdefghijklmnop',
+    'moz-extension://*',
+    'not an origin',
+  ].join(', ')
+})
+
+const { getCorsHeaders, handleOptions, isOriginAllowed } = await import('../lib/cors.js')
+
+function preflight(origin?: string) {
+  const req = { method: 'OPTIONS', headers: origin ? { origin } : {} } as unknown as VercelRequest
+  const sent = { status: 0, headers: {} as Record<string, string> }
+  const res = {
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value
+      return res
+    },
+    status(code: number) {
+      sent.status = code
+      return res
+    },
+    end: () => res,
+  }
+  handleOptions(req, res as unknown as VercelResponse)
+  return sent
+}
+
+describe('isOriginAllowed', () => {
+  it.each([
+    // Exact origins
+    ['https://app.example.com', true],
+    ['https://APP.example.com', true],
+    ['https://app.example.com/', true],
+    ['http://app.example.com', false], // Another scheme
+    ['https://app.example.com:8443', false], // Another port
+    ['https://app.example.com.evil.test', false],
+    ['https://evilapp.example.com', false],
+    // Subdomain wildcards
+    ['https://blog.example.org', true],
+    ['https://a.b.example.org', true],
+    ['https://example.org', false], // The wildcard needs a subdomain
+    ['https://notexample.org', false],
+    ['https://blog.example.org.evil.test', false],
+    ['http://blog.example.org', false],
+    // Ports
+    ['http://localhost:3000', true],
+    ['http://localhost', false],
+    ['http://localhost:3001', false],
+    // Extensions
+    ['chrome-extension://abcdefghijklmnop', true],
+    ['chrome-extension://ponmlkjihgfedcba', false],
+    ['moz-extension://0f1e2d3c-4b5a-6978-8a9b-0c1d2e3f4a5b', true],
+    // Origins that are themselves patterns, or not origins at all
+    ['https://*.example.org', false],
+    ['moz-extension://*', false],
+    ['not an origin', false],
+    ['null', false],
+    ['', false],
+    [undefined, false],
+  ])('%s → %s', (origin, allowed) => {
+    expect(isOriginAllowed(origin)).toBe(allowed)
+  })
+})
+
+describe('getCorsHeaders', () => {
+  it.each([
+    ['https://blog.example.org', 'https://blog.example.org'],
+    ['https://evil.test', undefined],
+    [undefined, undefined],
+  ])('%s → Access-Control-Allow-Origin %s', (origin, allowOrigin) => {
+    const headers = getCorsHeaders(origin)
+    expect(headers['Access-Control-Allow-Origin']).toBe(allowOrigin)
+    expect(headers['Vary']).toBe('Origin')
+  })
+})
+
+describe('handleOptions', () => {
+  it.each([
+    ['an allowed origin', 'https://app.example.com', 204],
+    ['a disallowed origin', 'https://evil.test', 403],
+    ['a lookalike of a wildcard', 'https://example.org.evil.test', 403],
+    ['no origin', undefined, 403],
+  ])('answers a preflight from %s with %s', (_name, origin, status) => {
+    const sent = preflight(origin)
+    expect(sent.status).toBe(status)
+    expect(sent.headers['Vary']).toBe('Origin')
+    if (status === 403) {
+      expect(sent.headers['Access-Control-Allow-Origin']).toBeUndefined()
+      expect(sent.headers['Access-Control-Allow-Methods']).toBeUndefined()
+    } else {
+      expect(sent.headers['Access-Control-Allow-Origin']).toBe(origin)
+    }
+  })
+})
+
+describe('ALLOWED_ORIGINS=*', () => {
+  it('allows any origin without varying on it', async () => {
+    vi.resetModules()
+    vi.stubEnv('ALLOWED_ORIGINS', '*')
+    const cors = await import('../lib/cors.js')
+    vi.unstubAllEnvs()
+
+    expect(cors.isOriginAllowed('https://anything.test')).toBe(true)
+    expect(cors.isOriginAllowed(undefined)).toBe(true)
+    expect(cors.getCorsHeaders('https://anything.test')).toMatchObject({ 'Access-Control-Allow-Origin': '*' })
+    expect(cors.getCorsHeaders('https://anything.test')['Vary']).toBeUndefined()
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest'
+import { decodeBody, normalizeEncoding, type DocumentKind } from '../lib/encoding.js'
+
+// "Привет" in windows-1251
+const CP1251_HELLO = [0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]
+
+function bytes(...parts: Array<string | number[]>): Uint8Array {
+  return Buffer.concat(
+    parts.map((part) => (typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)))
+  )
+}
+
+function utf8(text: string): number[] {
+  return [...Buffer.from(text, 'utf8')]
+}
+
+function utf16be(text: string): number[] {
+  return [...Buffer.from(text, 'utf16le').swap16()]
+}
+
+describe('normalizeEncoding', () => {
+  it.each([
+    ['UTF-8', 'utf-8'],
+    ['utf8', 'utf-8'],
+    ['"Shift_JIS"', 'shift_jis'],
+    [' latin1 ', 'windows-1252'],
+    ['iso-8859-1', 'windows-1252'], // WHATWG decodes Latin-1 as windows-1252
+    ['x-no-such-charset', null],
+    ['', null],
+    [null, null],
+  ])('%j → %s', (label, encoding) => {
+    expect(normalizeEncoding(label)).toBe(encoding)
+  })
+})
+
+describe('decodeBody', () => {
+  it.each<[string, Uint8Array, string | null, DocumentKind, string, string]>([
+    // Byte order marks beat everything and are stripped
+    [
+      'UTF-8 BOM over a header charset',
+      bytes([0xef, 0xbb, 0xbf], utf8('<t>café</t>')),
+      'text/xml; charset=windows-1251',
+      'xml',
+      'utf-8',
+      '<t>café</t>',
+    ],
+    [
+      'UTF-16LE BOM',
+      bytes([...Buffer.from('\ufeff<t>ü</t>', 'utf16le')]),
+      null,
+      'xml',
+      'utf-16le',
+      '<t>ü</t>',
+    ],
+    [
+      'UTF-16BE BOM',
+      bytes([0xfe, 0xff], utf16be('<t>ü</t>')),
+      'text/xml; charset=utf-8',
+      'xml',
+      'utf-16be',
+      '<t>ü</t>',
+    ],
+    // Content-Type charset
+    [
+      'header charset',
+      bytes('<t>caf', [0xe9], '</t>'),
+      'text/xml; charset=iso-8859-1',
+      'xml',
+      'windows-1252',
+      '<t>café</t>',
+    ],
+    [
+      'quoted header charset',
+      bytes('<p>', CP1251_HELLO),
+      'text/html; charset="windows-1251"',
+      'html',
+      'windows-1251',
+      '<p>Привет',
+    ],
+    [
+      'unknown header charset',
+      bytes('<t>', utf8('ü'), '</t>'),
+      'text/xml; charset=x-bogus',
+      'xml',
+      'utf-8',
+      '<t>ü</t>',
+    ],
+    // XML declaration
+    [
+      'XML declaration',
+      bytes('<?xml version="1.0" encoding="windows-1251"?><t>', CP1251_HELLO, '</t>'),
+      'application/rss+xml',
+      'xml',
+      'windows-1251',
+      '<t>Привет</t>',
+    ],
+    [
+      'header over XML declaration',
+      bytes("<?xml version='1.0' encoding='iso-8859-1'?><t>", CP1251_HELLO, '</t>'),
+      'text/xml; charset=windows-1251',
+      'xml',
+      'windows-1251',
+      '<t>Привет</t>',
+    ],
+    [
+      'XML declaration over a UTF-8 header the bytes contradict',
+      bytes('<?xml version="1.0" encoding="windows-1251"?><t>', CP1251_HELLO, '</t>'),
+      'text/xml; charset=utf-8',
+      'xml',
+      'windows-1251',
+      '<t>Привет</t>',
+    ],
+    [
+      'UTF-8 declaration over a legacy header when the bytes are UTF-8',
+      bytes('<?xml version="1.0" encoding="utf-8"?><t>', utf8('Привет'), '</t>'),
+      'text/xml; charset=windows-1251',
+      'xml',
+      'utf-8',
+      '<t>Привет</t>',
+    ],
+    [
+      'XML declaration in an XHTML page',
+      bytes('<?xml version="1.0" encoding="windows-1251"?><html><p>', CP1251_HELLO),
+      null,
+      'html',
+      'windows-1251',
+      '<p>Привет',
+    ],
+    // <meta> in HTML
+    [
+      'meta charset',
+      bytes('<html><head><meta charset="windows-1251"></head><p>', CP1251_HELLO),
+      null,
+      'html',
+      'windows-1251',
+      '<p>Привет',
+    ],
+    [
+      'meta http-equiv',
+      bytes('<meta http-equiv="Content-Type" content="text/html; charset=windows-1251"><p>', CP1251_HELLO),
+      'text/html',
+      'html',
+      'windows-1251',
+      '<p>Привет',
+    ],
+    [
+      'header over meta',
+      bytes('<meta charset="iso-8859-1"><p>', CP1251_HELLO),
+      'text/html; charset=windows-1251',
+      'html',
+      'windows-1251',
+      '<p>Привет',
+    ],
+    ['meta claiming UTF-16', bytes('<meta charset="utf-16"><p>', utf8('ü')), null, 'html', 'utf-8', '<p>ü'],
+    [
+      'meta ignored in a feed',
+      bytes('<t><meta charset="windows-1251"/>', utf8('ü'), '</t>'),
+      null,
+      'xml',
+      'utf-8',
+      'ü</t>',
+    ],
+    // Nothing declared
+    ['undeclared UTF-8', bytes('<p>', utf8('naïve')), 'text/html', 'html', 'utf-8', '<p>naïve'],
+    [
+      'undeclared legacy bytes',
+      bytes('<p>na', [0xef], 've'),
+      'text/html',
+      'html',
+      'windows-1252',
+      '<p>naïve',
+    ],
+  ])('%s', (_name, body, contentType, kind, encoding, text) => {
+    const decoded = decodeBody(body, contentType, kind)
+    expect(decoded.encoding).toBe(encoding)
+    expect(decoded.text).toContain(text)
+    expect(decoded.text.charCodeAt(0)).not.toBe(0xfeff)
+  })
+})
@@ -0,0 +1,278 @@
+import { describe, expect, it } from 'vitest'
+import {
+  feedContentHash,
+  parseFeedDocument,
+  selectNewItems,
+  type FeedItem,
+  type NormalizedFeed,
+} from '../lib/feed.js'
+
+const BASE = 'https://blog.example.com/feed/'
+
+const RSS = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title> Example Blog </title>
+    <link>/</link>
+    <description>Posts about examples</description>
+    <language>en-gb</language>
+    <lastBuildDate>Mon, 19 Oct 2026 10:00:00 GMT</lastBuildDate>
+    <image><url>/logo.png</url><title>Example Blog</title><link>/</link></image>
+    <item>
+      <title>First post</title>
+      <link>/posts/first</link>
+      <guid isPermaLink="false">post-1</guid>
+      <pubDate>Sun, 18 Oct 2026 09:30:00 +0100</pubDate>
+      <description>Short version</description>
+      <content:encoded><![CDATA[<p>Full version</p>]]></content:encoded>
+      <dc:creator>Sam Writer</dc:creator>
+      <dc:creator>Alex Editor</dc:creator>
+      <category>news</category>
+      <category>examples</category>
+      <dc:subject>news</dc:subject>
+      <enclosure url="/audio/first.mp3" type="audio/mpeg" length="12345"/>
+      <enclosure url="/audio/first.mp3" type="audio/mpeg" length="12345"/>
+    </item>
+    <item>
+      <title>Second post</title>
+      <link>https://blog.example.com/posts/second</link>
+      <pubDate>not a date</pubDate>
+      <description>Only a description</description>
+      <enclosure url="/video/second.mp4" type="video/mp4" length="-1"/>
+    </item>
+    <item>
+      <title>First post, repeated</title>
+      <guid isPermaLink="false">post-1</guid>
+    </item>
+  </channel>
+</rss>`
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Example</title>
+  <link href="https://atom.example.com/"/>
+  <updated>2026-10-19T08:00:00Z</updated>
+  <author><name>Feed Author</name></author>
+  <entry>
+    <title>Entry with its own author</title>
+    <id>tag:atom.example.com,2026:1</id>
+    <link href="/entries/1"/>
+    <link rel="enclosure" href="/media/1.ogg" type="audio/ogg" length="999"/>
+    <published>2026-10-18T07:00:00Z</published>
+    <updated>2026-10-19T07:00:00+02:00</updated>
+    <author><name>Entry Author</name></author>
+    <summary>Entry summary</summary>
+    <content type="html">&lt;p&gt;Entry content&lt;/p&gt;</content>
+    <category term="tech" label="Technology"/>
+    <category term="atom"/>
+  </entry>
+  <entry>
+    <title>Entry inheriting the feed author</title>
+    <id>tag:atom.example.com,2026:2</id>
+    <link href="/entries/2"/>
+    <updated>2026-10-17T07:00:00Z</updated>
+  </entry>
+</feed>`
+
+const RDF = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://rdf.example.com/">
+    <title>RDF Example</title>
+    <link>https://rdf.example.com/</link>
+    <description>An RSS 1.0 feed</description>
+  </channel>
+  <item rdf:about="https://rdf.example.com/items/1">
+    <title>RDF item</title>
+    <link>https://rdf.example.com/items/1?ref=feed</link>
+    <dc:date>2026-10-16T12:00:00Z</dc:date>
+    <dc:creator>RDF Author</dc:creator>
+    <dc:subject>semantics</dc:subject>
+  </item>
+</rdf:RDF>`
+
+describe('parseFeedDocument', () => {
+  it('normalizes an RSS 2.0 feed', async () => {
+    const feed = await parseFeedDocument(RSS, BASE)
+    expect(feed).toMatchObject({
+      type: 'rss',
+      title: 'Example Blog',
+      link: 'https://blog.example.com/',
+      description: 'Posts about examples',
+      language: 'en-gb',
+      image: 'https://blog.example.com/logo.png',
+      updated: '2026-10-19T10:00:00.000Z',
+    })
+    expect(feed.items[0]).toEqual({
+      guid: 'post-1',
+      title: 'First post',
+      link: 'https://blog.example.com/posts/first',
+      published: '2026-10-18T08:30:00.000Z',
+      updated: null,
+      authors: ['Sam Writer', 'Alex Editor'],
+      content: '<p>Full version</p>',
+      summary: 'Short version',
+      enclosures: [{ url: 'https://blog.example.com/audio/first.mp3', type: 'audio/mpeg', length: 12345 }],
+      categories: ['news', 'examples'],
+    })
+  })
+
+  it('normalizes an Atom feed', async () => {
+    const feed = await parseFeedDocument(ATOM, 'https://atom.example.com/atom.xml')
+    expect(feed).toMatchObject({
+      type: 'atom',
+      title: 'Atom Example',
+      link: 'https://atom.example.com/',
+      updated: '2026-10-19T08:00:00.000Z',
+      authors: ['Feed Author'],
+    })
+    expect(feed.items[0]).toEqual({
+      guid: 'tag:atom.example.com,2026:1',
+      title: 'Entry with its own author',
+      link: 'https://atom.example.com/entries/1',
+      published: '2026-10-18T07:00:00.000Z',
+      updated: '2026-10-19T05:00:00.000Z',
+      authors: ['Entry Author'],
+      content: '<p>Entry content</p>',
+      summary: 'Entry summary',
+      enclosures: [{ url: 'https://atom.example.com/media/1.ogg', type: 'audio/ogg', length: 999 }],
+      categories: ['Technology', 'atom'],
+    })
+    expect(feed.items[1].authors).toEqual(['Feed Author'])
+  })
+
+  it('normalizes an RSS 1.0 (RDF) feed', async () => {
+    const feed = await parseFeedDocument(RDF, 'https://rdf.example.com/index.rdf')
+    expect(feed).toMatchObject({ type: 'rdf', title: 'RDF Example', description: 'An RSS 1.0 feed' })
+    expect(feed.items).toHaveLength(1)
+    expect(feed.items[0]).toMatchObject({
+      guid: 'https://rdf.example.com/items/1', // From rdf:about, not the link
+      link: 'https://rdf.example.com/items/1?ref=feed',
+      published: '2026-10-16T12:00:00.000Z',
+      authors: ['RDF Author'],
+      categories: ['semantics'],
+    })
+  })
+
+  it.each([
+    // Item index, field, expected value
+    ['a relative link, resolved against the feed URL', 0, 'link', 'https://blog.example.com/posts/first'],
+    ['the link when there is no guid', 1, 'guid', 'https://blog.example.com/posts/second'],
+    ['no date for an unparseable pubDate', 1, 'published', null],
+    ['the description as the summary', 1, 'summary', 'Only a description'],
+    [
+      'no length for a negative one',
+      1,
+      'enclosures',
+      [{ url: 'https://blog.example.com/video/second.mp4', type: 'video/mp4', length: null }],
+    ],
+    ['no authors when none are given', 1, 'authors', []],
+  ] as const)('RSS items: %s', async (_name, index, field, value) => {
+    const feed = await parseFeedDocument(RSS, BASE)
+    expect(feed.items[index][field]).toEqual(value)
+  })
+
+  it('keeps the first of the items sharing a guid', async () => {
+    const feed = await parseFeedDocument(RSS, BASE)
+    expect(feed.items.map((item) => item.title)).toEqual(['First post', 'Second post'])
+  })
+
+  it('falls back to a content hash for items with neither guid nor link', async () => {
+    const bare = '<item><title>Bare</title><description>Text</description></item>'
+    const xml = RSS.replace(/<item>[\s\S]*<\/item>/, bare)
+    const [first] = (await parseFeedDocument(xml, BASE)).items
+    const [again] = (await parseFeedDocument(xml, BASE)).items
+    expect(first.guid).toMatch(/^[0-9a-f]{64}$/)
+    expect(again.guid).toBe(first.guid)
+  })
+
+  it.each([
+    ['HTML', '<!DOCTYPE html><html><body><p>Not a feed</p></body></html>'],
+    ['a JSON Feed', JSON.stringify({ version: 'https://jsonfeed.org/version/1.1', items: [] })],
+    ['malformed XML', '<rss><channel><title>Broken</channel>'],
+    ['an empty document', ''],
+  ])('rejects %s', async (_name, document) => {
+    await expect(parseFeedDocument(document, BASE)).rejects.toThrow()
+  })
+})
+
+function item(guid: string, dates: { published?: string; updated?: string } = {}): FeedItem {
+  return {
+    guid,
+    title: guid,
+    link: null,
+    published: dates.published ?? null,
+    updated: dates.updated ?? null,
+    authors: [],
+    content: null,
+    summary: null,
+    enclosures: [],
+    categories: [],
+  }
+}
+
+describe('selectNewItems', () => {
+  const items = [
+    item('old', { published: '2026-10-01T00:00:00Z' }),
+    item('edited', { published: '2026-10-01T00:00:00Z', updated: '2026-10-18T00:00:00Z' }),
+    item('new', { published: '2026-10-18T00:00:00Z' }),
+    item('undated'),
+  ]
+  const since = Date.parse('2026-10-10T00:00:00Z')
+
+  it.each([
+    ['no filter', undefined, null, ['old', 'edited', 'new', 'undated']],
+    ['known guids', ['old', 'edited', 'undated'], null, ['new']],
+    ['since', undefined, since, ['edited', 'new', 'undated']],
+    ['since and known guids', ['old', 'edited', 'new', 'undated'], since, ['edited', 'new']],
+    ['since and an unknown dated item', ['edited', 'new', 'undated'], since, ['old', 'edited', 'new']],
+    ['nothing new', ['old', 'edited', 'new', 'undated'], Date.parse('2026-10-20T00:00:00Z'), []],
+    ['an empty known list', [], since, ['old', 'edited', 'new', 'undated']],
+  ])('%s', (_name, knownGuids, sinceTime, guids) => {
+    expect(selectNewItems(items, knownGuids, sinceTime).map((selected) => selected.guid)).toEqual(guids)
+  })
+})
+
+describe('item identity', () => {
+  const ORIGIN = 'https://blog.example.com'
+  const feed = (link: string, guid = '') => `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Feed</title>
+  <item><title>Post</title><link>${link}</link>${guid ? `<guid>${guid}</guid>` : ''}</item>
+</channel></rss>`
+
+  it.each([
+    ['a guid survives a changed link', feed('/a', 'post-1'), feed('/b', 'post-1'), true],
+    ['without a guid, the link is the identity', feed('/a'), feed('/a'), true],
+    ['without a guid, a changed link is a new item', feed('/a'), feed('/b'), false],
+    ['a relative and an absolute link are the same item', feed('/a'), feed(`${ORIGIN}/a`), true],
+    ['a permalink guid matches the same post without one', feed('/a', `${ORIGIN}/a`), feed('/a'), true],
+  ])('%s', async (_name, before, after, same) => {
+    const [first] = (await parseFeedDocument(before, BASE)).items
+    const [second] = (await parseFeedDocument(after, BASE)).items
+    expect(selectNewItems([second], [first.guid], null)).toHaveLength(same ? 0 : 1)
+  })
+})
+
+describe('feedContentHash', () => {
+  const base: NormalizedFeed = {
+    type: 'rss',
+    title: 'Feed',
+    link: 'https://blog.example.com/',
+    description: null,
+    language: null,
+    image: null,
+    updated: '2026-10-19T10:00:00.000Z',
+    authors: [],
+    items: [item('post-1')],
+  }
+
+  it.each<[string, Partial<NormalizedFeed>, boolean]>([
+    ['a bumped build date', { updated: '2026-10-19T11:00:00.000Z' }, true],
+    ['a missing build date', { updated: null }, true],
+    ['a changed title', { title: 'Renamed' }, false],
+    ['a new item', { items: [item('post-2'), item('post-1')] }, false],
+    ['an item with a new guid', { items: [item('post-1b')] }, false],
+    ['an edited item', { items: [{ ...item('post-1'), summary: 'Edited' }] }, false],
+  ])('%s → unchanged %s', (_name, change, unchanged) => {
+    expect(feedContentHash({ ...base, ...change }) === feedContentHash(base)).toBe(unchanged)
+  })
+})
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CachedFetchResult } from '../lib/cache.js'
+
+// The response the mocked cachedFetch returns for the next fetch
+const upstream = vi.hoisted(() => ({
+  result: null as CachedFetchResult | null,
+}))
+
+vi.mock('../lib/cache.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/cache.js')>()),
+  cachedFetch: async (): Promise<CachedFetchResult> => upstream.result!,
+}))
+
+const { classifyFeed, fetchFeed, looksLikeHtml } = await import('../lib/fetch.js')
+
+const FEED_URL = 'https://blog.example.com/feed.xml'
+const NEW_URL = 'https://blog.example.com/new-feed.xml'
+
+const RSS = '<?xml version="1.0"?><rss version="2.0"><channel><title>Feed</title></channel></rss>'
+const HOMEPAGE = '<!DOCTYPE html><html><head><title>Blog</title></head><body>Welcome</body></html>'
+
+function serve(status: number, contentType: string, body: string, hops: number[] = []): void {
+  upstream.result = {
+    response: new Response(null, { status, headers: { 'content-type': contentType } }),
+    url: hops.length > 0 ? NEW_URL : FEED_URL,
+    redirects: hops.map((hopStatus, i) => ({ url: i === 0 ? FEED_URL : NEW_URL, status: hopStatus })),
+    attempts: 1,
+    body: new TextEncoder().encode(body),
+    cache: 'MISS',
+  }
+}
+
+beforeEach(() => {
+  upstream.result = null
+})
+
+describe('looksLikeHtml', () => {
+  it.each([
+    ['a doctype', 'application/rss+xml', HOMEPAGE, true],
+    ['an <html> root after a BOM and comments', null, '\ufeff<!-- cached --> <html lang="en"><body>', true],
+    ['a bare <body>', 'text/plain', '<body>Not found</body>', true],
+    ['an HTML content type without a feed root', 'text/html; charset=utf-8', 'Service unavailable', true],
+    ['an RSS feed labelled text/html', 'text/html', RSS, false],
+    ['an Atom feed labelled text/html', 'text/html', '<feed xmlns="http://www.w3.org/2005/Atom">', false],
+    ['an RDF feed', 'application/rdf+xml', '<rdf:RDF xmlns:rdf="...">', false],
+    ['an RSS feed', 'application/rss+xml', RSS, false],
+    ['HTML inside a feed item', 'application/rss+xml', '<rss><item><description><html>', false],
+    ['plain text', 'text/plain', 'OK', false],
+  ])('%s → %s', (_name, contentType, text, html) => {
+    expect(looksLikeHtml(contentType, text)).toBe(html)
+  })
+})
+
+describe('classifyFeed', () => {
+  it.each([
+    // Status, permanent redirect, HTML, feed
+    [200, true, false, true, 'FEED_MOVED'],
+    [304, true, false, true, 'FEED_MOVED'],
+    [200, true, false, false, null], // A 301 to something that isn't a feed
+    [404, true, false, false, null], // A 301 to an error page
+    [500, true, false, false, null],
+    [200, true, true, false, 'NOT_A_FEED'], // A 301 to the homepage
+    [200, false, true, false, 'NOT_A_FEED'],
+    [410, true, false, false, 'FEED_GONE'],
+    [410, false, true, false, 'FEED_GONE'],
+    [200, false, false, true, null],
+  ] as const)('%s, permanent %s, html %s, feed %s → %s', (status, permanent, html, feed, expected) => {
+    expect(classifyFeed(status, permanent, html, feed)).toBe(expected)
+  })
+})
+
+describe('fetchFeed classification', () => {
+  it.each([
+    ['a 301 to a feed', [301], 200, 'application/rss+xml', RSS, 'FEED_MOVED'],
+    ['a 308 then 301 to a feed', [308, 301], 200, 'application/rss+xml', RSS, 'FEED_MOVED'],
+    ['a 302 to a feed', [302], 200, 'application/rss+xml', RSS, null],
+    ['a 301 then 302 to a feed', [301, 302], 200, 'application/rss+xml', RSS, null],
+    ['a 301 to a 404 page', [301], 404, 'text/html', HOMEPAGE, null],
+    ['a 301 to a 200 error page', [301], 200, 'text/html', HOMEPAGE, 'NOT_A_FEED'],
+    ['a 301 to a 410', [301], 410, 'text/html', HOMEPAGE, 'FEED_GONE'],
+    ['a 301 to a JSON error', [301], 200, 'application/json', '{"error":"moved"}', null],
+  ])('%s → %s', async (_name, hops, status, contentType, body, classification) => {
+    serve(status, contentType, body, hops)
+    const result = await fetchFeed({ url: FEED_URL }, 5000)
+    expect(result).toMatchObject({ success: true, status, classification })
+  })
+
+  it('does not parse an HTML page in parsed mode', async () => {
+    serve(200, 'text/html', HOMEPAGE, [301])
+    const result = await fetchFeed({ url: FEED_URL, format: 'parsed' }, 5000)
+    expect(result).toMatchObject({ success: true, feed: null, classification: 'NOT_A_FEED' })
+  })
+
+  it('fails rather than report a move to a feed that does not parse', async () => {
+    serve(200, 'application/xml', '<rss><channel><title>Broken</channel>', [301])
+    const result = await fetchFeed({ url: FEED_URL, format: 'parsed' }, 5000)
+    expect(result).toMatchObject({ success: false, error: { code: 'PARSE_FAILED', status: 200 } })
+  })
+})
@@ -0,0 +1,357 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ResolvedAddress, Resolver } from '../lib/ssrf.js'
+
+// undici is replaced so no socket is opened: each fetch is answered from
+// `routes`, and each pinned agent keeps the options it was created with
+const undici = vi.hoisted(() => {
+  class FakeAgent {
+    closed = false
+    constructor(readonly options: { connect: { lookup: Function } }) {}
+    async close() {
+      this.closed = true
+    }
+  }
+  const requests: Array<{ url: string; headers: Record<string, string>; agent: FakeAgent }> = []
+  const routes = new Map<string, (signal: AbortSignal) => Response>()
+  return { FakeAgent, requests, routes }
+})
+
+vi.mock('undici', () => ({
+  Agent: undici.FakeAgent,
+  fetch: async (
+    url: string,
+    init: { headers?: Record<string, string>; dispatcher: unknown; signal: AbortSignal }
+  ) => {
+    undici.requests.push({
+      url,
+      headers: init.headers || {},
+      agent: init.dispatcher as InstanceType<typeof undici.FakeAgent>,
+    })
+    const route = undici.routes.get(url)
+    if (!route) throw new TypeError('fetch failed', { cause: new Error('ECONNREFUSED') })
+    return route(init.signal)
+  },
+}))
+
+const { safeFetch } = await import('../lib/http.js')
+const { ProxyError } = await import('../lib/errors.js')
+
+function fakeResolver(records: Record<string, string[]>): Resolver & { calls: string[] } {
+  const calls: string[] = []
+  const resolver = async (hostname: string) => {
+    calls.push(hostname)
+    const addresses = records[hostname]
+    if (!addresses) throw new Error(`ENOTFOUND ${hostname}`)
+    return addresses.map(
+      (address): ResolvedAddress => ({ address, family: address.includes(':') ? 6 : 4 })
+    )
+  }
+  return Object.assign(resolver, { calls })
+}
+
+// What the pinned agent's DNS lookup answers, whatever hostname it is asked about
+function pinnedLookup(agent: InstanceType<typeof undici.FakeAgent>): Promise<[string, number]> {
+  return new Promise((resolve, reject) => {
+    agent.options.connect.lookup('anything.example', {}, (error: Error | null, address: string, family: number) =>
+      error ? reject(error) : resolve([address, family])
+    )
+  })
+}
+
+function redirect(location: string, status = 302): () => Response {
+  return () => new Response(null, { status, headers: { location } })
+}
+
+async function fetchError(promise: Promise<unknown>): Promise<InstanceType<typeof ProxyError>> {
+  const error = await promise.then(
+    () => null,
+    (e: unknown) => e
+  )
+  expect(error).toBeInstanceOf(ProxyError)
+  return error as InstanceType<typeof ProxyError>
+}
+
+const resolver = fakeResolver({
+  'feed.example.com': ['93.184.215.14', '2606:2800:21f:cb07:6820:80da:af6b:8b2c'],
+  'cdn.example.net': ['2606:4700:4700::1111'],
+  'rebind.example.com': ['10.0.0.5'],
+  'mapped.example.com': ['::ffff:169.254.169.254'],
+})
+
+beforeEach(() => {
+  undici.requests.length = 0
+  undici.routes.clear()
+  resolver.calls.length = 0
+})
+
+describe('safeFetch with an injected resolver', () => {
+  it('pins the connection to the first vetted address', async () => {
+    undici.routes.set('https://feed.example.com/rss', () => new Response('<rss/>'))
+
+    const result = await safeFetch('https://feed.example.com/rss', { timeout: 5000, resolver })
+
+    expect(await result.response.text()).toBe('<rss/>')
+    expect(resolver.calls).toEqual(['feed.example.com'])
+    expect(await pinnedLookup(undici.requests[0].agent)).toEqual(['93.184.215.14', 4])
+  })
+
+  it('resolves and pins every redirect hop separately', async () => {
+    undici.routes.set('https://feed.example.com/old', redirect('https://cdn.example.net/new', 301))
+    undici.routes.set('https://cdn.example.net/new', () => new Response('<feed/>'))
+
+    const result = await safeFetch('https://feed.example.com/old', { timeout: 5000, resolver })
+
+    expect(result.url).toBe('https://cdn.example.net/new')
+    expect(result.redirects).toEqual([{ url: 'https://feed.example.com/old', status: 301 }])
+    expect(resolver.calls).toEqual(['feed.example.com', 'cdn.example.net'])
+    expect(await pinnedLookup(undici.requests[1].agent)).toEqual(['2606:4700:4700::1111', 6])
+  })
+
+  it.each(['rebind.example.com', 'mapped.example.com'])(
+    'refuses %s before connecting when it resolves to a private address',
+    async (host) => {
+      const error = await fetchError(safeFetch(`http://${host}/`, { timeout: 5000, resolver }))
+      expect(error.code).toBe('BLOCKED_URL')
+      expect(undici.requests).toHaveLength(0)
+    }
+  )
+
+  it('names the redirect hop whose target resolves to a private address', async () => {
+    undici.routes.set('https://feed.example.com/rss', redirect('http://rebind.example.com/admin'))
+
+    const error = await fetchError(safeFetch('https://feed.example.com/rss', { timeout: 5000, resolver }))
+
+    expect(error.code).toBe('BLOCKED_URL')
+    expect(error.message).toMatch(/^Redirect hop 1 to http:\/\/rebind\.example\.com\/admin blocked/)
+    expect(undici.requests).toHaveLength(1)
+  })
+
+  it('reports a host the resolver cannot find as FETCH_FAILED', async () => {
+    const error = await fetchError(safeFetch('https://missing.example.com/', { timeout: 5000, resolver }))
+    expect(error.code).toBe('FETCH_FAILED')
+    expect(error.message).toBe('Could not resolve host missing.example.com')
+  })
+
+  it('sends credentials only to the original host', async () => {
+    undici.routes.set('https://feed.example.com/private', redirect('https://cdn.example.net/file'))
+    undici.routes.set('https://cdn.example.net/file', () => new Response('ok'))
+
+    await safeFetch('https://feed.example.com/private', {
+      timeout: 5000,
+      resolver,
+      credentials: { Authorization: 'Bearer secret' },
+    })
+
+    expect(undici.requests[0].headers.Authorization).toBe('Bearer secret')
+    expect(undici.requests[1].headers.Authorization).toBeUndefined()
+  })
+
+  it('closes every pinned agent once the final body has been read', async () => {
+    undici.routes.set('https://feed.example.com/old', redirect('https://feed.example.com/new'))
+    undici.routes.set('https://feed.example.com/new', () => new Response('body'))
+
+    const result = await safeFetch('https://feed.example.com/old', { timeout: 5000, resolver })
+
+    expect(undici.requests[0].agent.closed).toBe(true) // Redirect hop, done with at once
+    expect(undici.requests[1].agent.closed).toBe(false)
+    await result.response.text()
+    expect(undici.requests[1].agent.closed).toBe(true)
+  })
+})
+
+// A body sending `count` chunks `interval` ms apart (forever without a count),
+// which fails like undici's once the request is aborted
+function drip(signal: AbortSignal, interval: number, count = Infinity): Response {
+  let sent = 0
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (sent >= count) return controller.close()
+      await new Promise((resolve) => setTimeout(resolve, interval))
+      if (signal.aborted) return controller.error(signal.reason)
+      sent++
+      controller.enqueue(new TextEncoder().encode('x'))
+    },
+  })
+  return new Response(body)
+}
+
+async function readAll(response: Response, pause = 0): Promise<string> {
+  const reader = response.body!.getReader()
+  let text = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return text
+    text += new TextDecoder().decode(value)
+    if (pause) await new Promise((resolve) => setTimeout(resolve, pause))
+  }
+}
+
+describe('safeFetch body timeouts', () => {
+  const url = 'https://feed.example.com/stream'
+
+  it('cuts off a buffered body when the overall timeout runs out', async () => {
+    undici.routes.set(url, (signal) => drip(signal, 30, 10))
+    const result = await safeFetch(url, { timeout: 100, resolver })
+    await expect(readAll(result.response)).rejects.toThrow()
+  })
+
+  it('lets a streamed body outlast the timeout while chunks keep coming', async () => {
+    undici.routes.set(url, (signal) => drip(signal, 30, 10))
+    const result = await safeFetch(url, { timeout: 100, idleTimeout: 100, resolver })
+    expect(await readAll(result.response)).toBe('x'.repeat(10))
+  })
+
+  it('does not count a slow consumer as upstream idling', async () => {
+    undici.routes.set(url, (signal) => drip(signal, 5, 3))
+    const result = await safeFetch(url, { timeout: 100, idleTimeout: 100, resolver })
+    expect(await readAll(result.response, 150)).toBe('xxx')
+  })
+
+  it('cuts off a streamed body once upstream stalls', async () => {
+    undici.routes.set(url, (signal) => drip(signal, 300))
+    const result = await safeFetch(url, { timeout: 1000, idleTimeout: 100, resolver })
+    const startedAt = Date.now()
+    await expect(readAll(result.response)).rejects.toThrow()
+    expect(Date.now() - startedAt).toBeLessThan(1000)
+  })
+
+  it('cuts off a streamed body at maxDuration', async () => {
+    undici.routes.set(url, (signal) => drip(signal, 20))
+    const result = await safeFetch(url, { timeout: 100, idleTimeout: 100, maxDuration: 250, resolver })
+    const startedAt = Date.now()
+    await expect(readAll(result.response)).rejects.toThrow()
+    expect(Date.now() - startedAt).toBeLessThan(400)
+  })
+})
+
+// Answers in turn with each of `responses`, repeating the last; an Error is thrown
+// the way undici reports a failed connection
+function sequence(...responses: Array<(() => Response) | Error>): () => Response {
+  let call = 0
+  return () => {
+    const next = responses[Math.min(call++, responses.length - 1)]
+    if (next instanceof Error) throw new TypeError('fetch failed', { cause: next })
+    return next()
+  }
+}
+
+const status = (code: number, headers: Record<string, string> = {}) => () =>
+  new Response(null, { status: code, headers })
+
+describe('safeFetch retries', () => {
+  const url = 'https://feed.example.com/flaky'
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it.each([429, 502, 503, 504])('retries a %s and counts the attempts', async (code) => {
+    undici.routes.set(url, sequence(status(code, { 'retry-after': '0' }), status(200)))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 2, resolver })
+    await vi.runAllTimersAsync()
+    const result = await pending
+    expect(result.response.status).toBe(200)
+    expect(result.attempts).toBe(2)
+  })
+
+  it.each([500, 404, 403])('does not retry a %s', async (code) => {
+    undici.routes.set(url, sequence(status(code), status(200)))
+    const result = await safeFetch(url, { timeout: 10_000, retries: 2, resolver })
+    expect(result.response.status).toBe(code)
+    expect(result.attempts).toBe(1)
+  })
+
+  it('does not retry without a retry count', async () => {
+    undici.routes.set(url, sequence(status(503), status(200)))
+    const result = await safeFetch(url, { timeout: 10_000, resolver })
+    expect(result.response.status).toBe(503)
+    expect(result.attempts).toBe(1)
+  })
+
+  it('retries connection errors, then reports the attempts made', async () => {
+    undici.routes.set(url, sequence(new Error('ECONNRESET')))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 2, resolver }).catch((e: unknown) => e)
+    await vi.runAllTimersAsync()
+    const error = (await pending) as Error
+    expect(error).toBeInstanceOf(ProxyError)
+    expect(error.message).toMatch(/\(after 3 attempts\)$/)
+    expect(undici.requests).toHaveLength(3)
+  })
+
+  it('recovers when a retried connection succeeds', async () => {
+    undici.routes.set(url, sequence(new Error('ECONNREFUSED'), status(200)))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 2, resolver })
+    await vi.runAllTimersAsync()
+    expect((await pending).attempts).toBe(2)
+  })
+
+  it('gives up after the last retry and returns the last response', async () => {
+    undici.routes.set(url, sequence(status(503, { 'retry-after': '0' })))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 2, resolver })
+    await vi.runAllTimersAsync()
+    const result = await pending
+    expect(result.response.status).toBe(503)
+    expect(result.attempts).toBe(3)
+  })
+
+  it.each([
+    ['seconds', '3'],
+    ['an HTTP date', new Date('2026-10-19T12:00:03Z').toUTCString()],
+  ])('waits as long as Retry-After in %s asks', async (_name, retryAfter) => {
+    undici.routes.set(url, sequence(status(503, { 'retry-after': retryAfter }), status(200)))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 1, resolver })
+
+    await vi.advanceTimersByTimeAsync(2999)
+    expect(undici.requests).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(undici.requests).toHaveLength(2)
+    expect((await pending).response.status).toBe(200)
+  })
+
+  it('keeps the jittered backoff under the base delay doubled per retry', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.9)
+    undici.routes.set(url, sequence(status(503), status(503), status(200)))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 2, resolver })
+
+    // 90% of the 250 ms cap before the first retry, then of the 500 ms cap before the second
+    await vi.advanceTimersByTimeAsync(224)
+    expect(undici.requests).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(undici.requests).toHaveLength(2)
+    await vi.advanceTimersByTimeAsync(449)
+    expect(undici.requests).toHaveLength(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(undici.requests).toHaveLength(3)
+    expect((await pending).attempts).toBe(3)
+  })
+
+  it('spreads retries with full jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    undici.routes.set(url, sequence(status(502), status(200)))
+    const pending = safeFetch(url, { timeout: 10_000, retries: 1, resolver })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(undici.requests).toHaveLength(2)
+    expect((await pending).attempts).toBe(2)
+  })
+
+  it('returns the response rather than wait past the deadline', async () => {
+    undici.routes.set(url, sequence(status(429, { 'retry-after': '60' }), status(200)))
+    const result = await safeFetch(url, { timeout: 5000, retries: 2, resolver })
+    expect(result.response.status).toBe(429)
+    expect(result.attempts).toBe(1)
+  })
+
+  it('throws the connection error rather than back off past the deadline', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.9)
+    undici.routes.set(url, sequence(new Error('ECONNRESET')))
+    const error = await safeFetch(url, { timeout: 100, retries: 2, resolver }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(TypeError) // The first failure, unwrapped
+    expect(undici.requests).toHaveLength(1)
+  })
+})
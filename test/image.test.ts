@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { SafeFetchResult } from '../lib/http.js'
+
+vi.hoisted(() => {
+  process.env.BAB_SIGNING_SECRET = 'test-signing-secret'
+  process.env.BAB_API_KEYS = JSON.stringify([{ name: 'app', key: 'app-key' }])
+})
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0])
+
+// Upstream status for the mocked safeFetch to answer with
+const upstream = vi.hoisted(() => ({ status: 200 }))
+
+vi.mock('../lib/http.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/http.js')>()),
+  safeFetch: async (url: string): Promise<SafeFetchResult> => ({
+    response: new Response(upstream.status === 304 ? null : PNG, {
+      status: upstream.status,
+      headers: { 'content-type': 'image/png', etag: '"v1"' },
+    }),
+    url,
+    redirects: [],
+    attempts: 1,
+  }),
+}))
+
+const { default: handler } = await import('../api/image.js')
+const { signUrl, signedQuery } = await import('../lib/auth.js')
+
+const TARGET = 'https://cdn.example.com/photo.png'
+
+async function image(
+  imageHandler: typeof handler,
+  query: Record<string, string>,
+  headers: Record<string, string> = {}
+) {
+  const req = { method: 'GET', headers, query, socket: {} } as unknown as VercelRequest
+  const sent = { headers: {} as Record<string, string> }
+  const res = {
+    statusCode: 200,
+    setHeader(name: string, value: string) {
+      sent.headers[name.toLowerCase()] = value
+      return res
+    },
+    status(code: number) {
+      res.statusCode = code
+      return res
+    },
+    json: () => res.end(),
+    end: () => res,
+  }
+  await imageHandler(req, res as unknown as VercelResponse)
+  return { status: res.statusCode, cacheControl: sent.headers['cache-control'] }
+}
+
+function signed(): Record<string, string> {
+  const exp = Math.floor(Date.now() / 1000) + 600
+  return Object.fromEntries(new URLSearchParams(signedQuery(signUrl('image', TARGET, exp, 'app'))))
+}
+
+describe('GET /image Cache-Control', () => {
+  it.each([
+    ['an API key', 200, () => ({ url: TARGET }), { 'x-api-key': 'app-key' }],
+    ['a signature', 200, signed, {}],
+    ['an API key, revalidated', 304, () => ({ url: TARGET }), { 'x-api-key': 'app-key' }],
+    ['a signature, revalidated', 304, signed, {}],
+  ])('keeps images fetched with %s private', async (_name, status, query, headers) => {
+    upstream.status = status
+    expect(await image(handler, query(), headers)).toEqual({
+      status,
+      cacheControl: expect.stringMatching(/^private, max-age=\d+, immutable$/),
+    })
+  })
+
+  it('lets shared caches keep images when no keys are configured', async () => {
+    vi.resetModules()
+    vi.stubEnv('BAB_API_KEYS', '')
+    const { default: openHandler } = await import('../api/image.js')
+    vi.unstubAllEnvs()
+
+    upstream.status = 200
+    expect(await image(openHandler, { url: TARGET })).toEqual({
+      status: 200,
+      cacheControl: expect.stringMatching(/^public, max-age=\d+, immutable$/),
+    })
+  })
+})
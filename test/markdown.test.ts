@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { CODE_LANGUAGE_ATTR, frontMatter, htmlToMarkdown, markCodeLanguages } from '../lib/markdown.js'
+
+describe('htmlToMarkdown', () => {
+  it.each([
+    // Blocks
+    ['paragraphs', '<p>One</p><p>Two</p>', 'One\n\nTwo'],
+    ['headings', '<h1>Title</h1><h3>Part <em>two</em></h3>', '# Title\n\n### Part *two*'],
+    ['an empty heading', '<h2> </h2><p>Text</p>', 'Text'],
+    ['a break inside a heading', '<h2>Line<br>break</h2>', '## Line break'],
+    [
+      'loose inline text between blocks',
+      'Intro <b>bold</b><p>Body</p>Outro',
+      'Intro **bold**\n\nBody\n\nOutro',
+    ],
+    ['a rule', '<p>Above</p><hr><p>Below</p>', 'Above\n\n---\n\nBelow'],
+    ['a blockquote', '<blockquote><p>Quoted</p><p>Twice</p></blockquote>', '> Quoted\n>\n> Twice'],
+    ['a nested blockquote', '<blockquote><blockquote><p>Deep</p></blockquote></blockquote>', '> > Deep'],
+    ['a definition list', '<dl><dt>Term</dt><dd>Meaning</dd></dl>', '**Term**\n\nMeaning'],
+    ['a details block', '<details><summary>More</summary><p>Hidden</p></details>', '**More**\n\nHidden'],
+    [
+      'a figure',
+      '<figure><img src="/a.png" alt="A"><figcaption>Caption</figcaption></figure>',
+      '![A](/a.png)\n\nCaption',
+    ],
+    // Lists
+    ['an unordered list', '<ul><li>One</li><li>Two</li></ul>', '- One\n- Two'],
+    ['an ordered list', '<ol><li>One</li><li>Two</li></ol>', '1. One\n2. Two'],
+    ['a nested list', '<ul><li>One<ul><li>Inner</li></ul></li></ul>', '- One\n  - Inner'],
+    ['a loose list', '<ol><li><p>One</p><p>More</p></li><li>Two</li></ol>', '1. One\n\n   More\n\n2. Two'],
+    // Code
+    ['a code block', '<pre><code>let a = 1\nlet b = 2\n</code></pre>', '```\nlet a = 1\nlet b = 2\n```'],
+    ['a code block language', `<pre ${CODE_LANGUAGE_ATTR}="ts"><code>x</code></pre>`, '```ts\nx\n```'],
+    ['a code block holding a fence', '<pre><code>```\ncode\n```</code></pre>', '````\n```\ncode\n```\n````'],
+    [
+      'a code block keeps markup characters',
+      '<pre><code>a *b* &lt;c&gt;</code></pre>',
+      '```\na *b* <c>\n```',
+    ],
+    ['a code span', '<p>Run <code>npm  test</code></p>', 'Run `npm test`'],
+    ['a code span holding a backtick', '<p><code>a`b</code></p>', '``a`b``'],
+    ['a code span starting with a backtick', '<p><code>`tick</code></p>', '`` `tick ``'],
+    // Inline
+    [
+      'emphasis',
+      '<p><strong>Bold</strong>, <em>italic</em> and <s>struck</s></p>',
+      '**Bold**, *italic* and ~~struck~~',
+    ],
+    ['emphasis keeps spaces outside', '<p>a<b> bold </b>b</p>', 'a **bold** b'],
+    ['empty emphasis', '<p>a<b> </b>b</p>', 'a b'],
+    [
+      'a link',
+      '<p><a href="https://example.com/a b">Example</a></p>',
+      '[Example](https://example.com/a%20b)',
+    ],
+    [
+      'a link without text',
+      '<p><a href="https://example.com/"></a></p>',
+      '[https://example.com/](https://example.com/)',
+    ],
+    ['a link without href', '<p><a>Plain</a></p>', 'Plain'],
+    ['a link with parentheses', '<p><a href="/wiki/A_(b)">A</a></p>', '[A](/wiki/A_%28b%29)'],
+    [
+      'an image with a title',
+      '<p><img src="/i.png" alt="Alt  text" title="Title"></p>',
+      '![Alt text](/i.png "Title")',
+    ],
+    ['an image without src', '<p><img alt="Gone"></p>', ''],
+    ['a video', '<video><source src="/v.mp4"></video>', '[video](/v.mp4)'],
+    ['a line break', '<p>One<br>Two<br></p>', 'One\\\nTwo'],
+    ['collapsed whitespace', '<p>  lots\n  of   space </p>', 'lots of space'],
+    // Escaping
+    [
+      'markdown characters in text',
+      '<p>*not* _em_ [x] `y` a\\b &lt;tag&gt;</p>',
+      '\\*not\\* \\_em\\_ \\[x\\] \\`y\\` a\\\\b \\<tag>',
+    ],
+    ['a leading hash', '<p># not a heading</p>', '\\# not a heading'],
+    ['a leading dash', '<p>- not a list</p>', '\\- not a list'],
+    ['a leading number', '<p>1. not a list</p>', '1\\. not a list'],
+    ['a leading quote', '<p>&gt; not a quote</p>', '\\> not a quote'],
+    // Tables
+    [
+      'a table',
+      '<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table>',
+      '| A | B |\n| --- | --- |\n| 1 | 2 |',
+    ],
+    [
+      'a ragged table',
+      '<table><tr><td>A</td></tr><tr><td>1</td><td>2</td></tr></table>',
+      '| A |  |\n| --- | --- |\n| 1 | 2 |',
+    ],
+    ['a pipe in a cell', '<table><tr><td>a|b</td></tr></table>', '| a\\|b |\n| --- |'],
+    [
+      'a table caption',
+      '<table><caption>Totals</caption><tr><td>1</td></tr></table>',
+      'Totals\n\n| 1 |\n| --- |',
+    ],
+    [
+      'a nested table',
+      '<table><tr><td><table><tr><td>in</td></tr></table></td></tr></table>',
+      '| in |\n| --- |',
+    ],
+    ['an empty table', '<table></table>', ''],
+    ['nothing', '', ''],
+  ])('%s', (_name, html, markdown) => {
+    expect(htmlToMarkdown(html)).toBe(markdown ? `${markdown}\n` : '')
+  })
+})
+
+describe('markCodeLanguages', () => {
+  it.each([
+    ['<pre class="language-ts"><code>x</code></pre>', 'pre', 'ts'],
+    ['<pre><code class="hljs lang-c++">x</code></pre>', 'code', 'c++'],
+    ['<pre data-lang="python"><code>x</code></pre>', 'pre', 'python'],
+    ['<pre class="languages"><code>x</code></pre>', 'pre', null],
+  ])('%s → %s', (html, selector, language) => {
+    const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`)
+    markCodeLanguages(document as unknown as Document)
+    expect(document.querySelector(selector)!.getAttribute(CODE_LANGUAGE_ATTR)).toBe(language)
+  })
+})
+
+describe('frontMatter', () => {
+  it.each([
+    [{ title: 'Post', author: null, date: '' }, '---\ntitle: "Post"\n---\n\n'],
+    [{ title: 'Say "hi": a\nb' }, '---\ntitle: "Say \\"hi\\": a\\nb"\n---\n\n'],
+    [{ title: null }, ''],
+  ])('%j', (fields, yaml) => {
+    expect(frontMatter(fields)).toBe(yaml)
+  })
+})
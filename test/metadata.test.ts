@@ -0,0 +1,272 @@
+import { describe, expect, it } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { countWords, extractMetadata, readingTime, type PageMetadata } from '../lib/metadata.js'
+
+const BASE = 'https://blog.example.com/2026/10/post'
+
+function page(html: string): Document {
+  return parseHTML(`<!DOCTYPE html><html>${html}</html>`).document as unknown as Document
+}
+
+// One JSON-LD block per value
+function jsonLd(...values: unknown[]): string {
+  return values
+    .map((value) => `<script type="application/ld+json">${JSON.stringify(value)}</script>`)
+    .join('')
+}
+
+// A Yoast-style @graph: the article points at its author and publisher by @id
+const GRAPH = jsonLd({
+  '@context': 'https://schema.org',
+  '@graph': [
+    { '@type': 'WebSite', '@id': 'https://blog.example.com/#website', name: 'Example Blog' },
+    {
+      '@type': 'Organization',
+      '@id': 'https://blog.example.com/#org',
+      name: 'Example Media',
+      logo: { '@type': 'ImageObject', url: '/logo.png' },
+    },
+    {
+      '@type': 'Person',
+      '@id': 'https://blog.example.com/#/person/sam',
+      name: 'Sam Writer',
+      url: '/authors/sam',
+    },
+    { '@type': 'WebPage', '@id': 'https://blog.example.com/2026/10/post#webpage' },
+    {
+      '@type': ['Article', 'BlogPosting'],
+      '@id': 'https://blog.example.com/2026/10/post#article',
+      datePublished: '2026-10-18T09:00:00+01:00',
+      dateModified: '2026-10-19T10:00:00Z',
+      author: { '@id': 'https://blog.example.com/#/person/sam' },
+      publisher: { '@id': 'https://blog.example.com/#org' },
+      mainEntityOfPage: { '@id': 'https://blog.example.com/2026/10/post#webpage' },
+      inLanguage: 'en-GB',
+      keywords: ['News', 'Examples, More'],
+      image: [{ '@type': 'ImageObject', url: '/images/lead.jpg' }, '/images/other.jpg'],
+    },
+  ],
+})
+
+describe('extractMetadata', () => {
+  it('reads an article from a JSON-LD @graph, following @id references', () => {
+    expect(extractMetadata(page(`<head>${GRAPH}</head>`), BASE)).toEqual({
+      publishedTime: '2026-10-18T08:00:00.000Z',
+      modifiedTime: '2026-10-19T10:00:00.000Z',
+      canonicalUrl: 'https://blog.example.com/2026/10/post#webpage',
+      language: 'en-GB',
+      keywords: ['News', 'Examples', 'More'],
+      author: 'Sam Writer',
+      authorUrl: 'https://blog.example.com/authors/sam',
+      siteName: 'Example Media',
+      image: 'https://blog.example.com/images/lead.jpg',
+      publisherLogo: 'https://blog.example.com/logo.png',
+    })
+  })
+
+  it.each<[string, string, keyof PageMetadata, unknown]>([
+    // JSON-LD shapes
+    [
+      'a top-level array',
+      jsonLd([{ '@type': 'WebSite' }, { '@type': 'NewsArticle', datePublished: '2026-10-18' }]),
+      'publishedTime',
+      '2026-10-18T00:00:00.000Z',
+    ],
+    [
+      'an array of @graph blocks',
+      jsonLd([{ '@graph': [{ '@type': 'BlogPosting', keywords: 'a, b' }] }]),
+      'keywords',
+      ['a', 'b'],
+    ],
+    [
+      'the first article of several blocks',
+      jsonLd(
+        { '@type': 'WebPage', name: 'Page' },
+        { '@type': 'Article', author: 'First' },
+        { '@type': 'Article', author: 'Second' }
+      ),
+      'author',
+      'First',
+    ],
+    [
+      'a broken block skipped',
+      `<script type="application/ld+json">{"@type": "Article",</script>
+       ${jsonLd({ '@type': 'Article', author: 'Sam' })}`,
+      'author',
+      'Sam',
+    ],
+    [
+      'a non-article type ignored',
+      jsonLd({ '@type': 'Product', datePublished: '2026-10-18' }),
+      'publishedTime',
+      null,
+    ],
+    [
+      'several authors',
+      jsonLd({ '@type': 'Article', author: [{ name: 'Sam' }, 'Alex', { name: ' ' }] }),
+      'author',
+      'Sam, Alex',
+    ],
+    [
+      'an author URL from the first author that has one',
+      jsonLd({ '@type': 'Article', author: [{ name: 'Sam' }, { name: 'Alex', url: '/alex' }] }),
+      'authorUrl',
+      'https://blog.example.com/alex',
+    ],
+    [
+      'an unresolved @id reference',
+      jsonLd({ '@type': 'Article', author: { '@id': '#nobody' } }),
+      'author',
+      null,
+    ],
+    [
+      'an image given as a string',
+      jsonLd({ '@type': 'Article', image: 'https://cdn.example.com/a.jpg' }),
+      'image',
+      'https://cdn.example.com/a.jpg',
+    ],
+    [
+      'an image given by contentUrl',
+      jsonLd({ '@type': 'Article', image: { contentUrl: '/a.jpg' } }),
+      'image',
+      'https://blog.example.com/a.jpg',
+    ],
+    [
+      'a language object',
+      jsonLd({ '@type': 'Article', inLanguage: { name: 'English', alternateName: 'en' } }),
+      'language',
+      'en',
+    ],
+    [
+      'a url as the canonical URL',
+      jsonLd({ '@type': 'Article', url: '/canonical' }),
+      'canonicalUrl',
+      'https://blog.example.com/canonical',
+    ],
+    // Precedence between sources
+    [
+      'JSON-LD over Open Graph dates',
+      `${jsonLd({ '@type': 'Article', datePublished: '2026-10-01' })}
+       <meta property="article:published_time" content="2026-09-01">`,
+      'publishedTime',
+      '2026-10-01T00:00:00.000Z',
+    ],
+    [
+      'Open Graph over JSON-LD site names',
+      `${jsonLd({ '@type': 'Article', publisher: { name: 'JSON-LD' } })}
+       <meta property="og:site_name" content="OG">`,
+      'siteName',
+      'OG',
+    ],
+    [
+      'rel=canonical over JSON-LD',
+      `${jsonLd({ '@type': 'Article', url: '/json' })}<link rel="canonical" href="/canonical">`,
+      'canonicalUrl',
+      'https://blog.example.com/canonical',
+    ],
+    [
+      'Open Graph over JSON-LD images',
+      `${jsonLd({ '@type': 'Article', image: '/json.jpg' })}<meta property="og:image" content="/og.jpg">`,
+      'image',
+      'https://blog.example.com/og.jpg',
+    ],
+    // Other sources
+    [
+      'Dublin Core in any case',
+      '<meta name="DC.Date.Issued" content="2026-10-02">',
+      'publishedTime',
+      '2026-10-02T00:00:00.000Z',
+    ],
+    [
+      'og:updated_time',
+      '<meta property="og:updated_time" content="2026-10-03T12:00:00Z">',
+      'modifiedTime',
+      '2026-10-03T12:00:00.000Z',
+    ],
+    ['an og:locale', '<meta property="og:locale" content="en_US">', 'language', 'en-US'],
+    [
+      'article:tag keywords',
+      ['a', 'b', 'a'].map((tag) => `<meta property="article:tag" content="${tag}">`).join(''),
+      'keywords',
+      ['a', 'b'],
+    ],
+    ['keywords', '<meta name="keywords" content=" a,, b ">', 'keywords', ['a', 'b']],
+    [
+      'an article:author profile URL',
+      '<meta property="article:author" content="https://social.example/sam">',
+      'authorUrl',
+      'https://social.example/sam',
+    ],
+    ['an article:author name', '<meta property="article:author" content="Sam">', 'author', 'Sam'],
+    [
+      'the twitter image',
+      '<meta name="twitter:image" content="/t.jpg">',
+      'image',
+      'https://blog.example.com/t.jpg',
+    ],
+    ['no canonical URL', '', 'canonicalUrl', BASE],
+  ])('%s', (_name, head, field, expected) => {
+    expect(extractMetadata(page(`<head>${head}</head>`), BASE)[field]).toEqual(expected)
+  })
+
+  it.each<[string, string, keyof PageMetadata, unknown]>([
+    [
+      'an h-entry author card',
+      '<body><article class="h-entry"><a class="p-author h-card" href="/sam">Sam</a></article></body>',
+      'authorUrl',
+      'https://blog.example.com/sam',
+    ],
+    [
+      'an h-entry date',
+      '<body><div class="h-entry"><time class="dt-published" datetime="2026-10-04">Oct 4</time></div></body>',
+      'publishedTime',
+      '2026-10-04T00:00:00.000Z',
+    ],
+    [
+      'not a nested comment’s author',
+      `<body><div class="h-entry"><p>Post</p>
+         <div class="h-entry"><span class="p-author">Commenter</span></div>
+       </div></body>`,
+      'author',
+      null,
+    ],
+    [
+      'a <time pubdate> element',
+      '<body><article><time datetime="2026-10-05" pubdate>Oct 5</time></article></body>',
+      'publishedTime',
+      '2026-10-05T00:00:00.000Z',
+    ],
+    [
+      'the first article image',
+      '<body><article><p>Text</p><img src="/in-article.jpg"></article></body>',
+      'image',
+      'https://blog.example.com/in-article.jpg',
+    ],
+    [
+      'a rel=author link',
+      '<body><a rel="author" href="/about">About</a></body>',
+      'authorUrl',
+      'https://blog.example.com/about',
+    ],
+  ])('%s', (_name, html, field, expected) => {
+    expect(extractMetadata(page(html), BASE)[field]).toEqual(expected)
+  })
+
+  it('reads the language from the html element', () => {
+    const { document } = parseHTML('<!DOCTYPE html><html lang="fr"><body></body></html>')
+    expect(extractMetadata(document as unknown as Document, BASE).language).toBe('fr')
+  })
+})
+
+describe('countWords and readingTime', () => {
+  it.each([
+    ['', 0, 0],
+    ['  one  ', 1, 1],
+    ['one two\nthree\tfour', 4, 1],
+    ['word '.repeat(230), 230, 1],
+    ['word '.repeat(690), 690, 3],
+  ])('%j', (text, words, minutes) => {
+    expect(countWords(text)).toBe(words)
+    expect(readingTime(countWords(text))).toBe(minutes)
+  })
+})
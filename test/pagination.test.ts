@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { findNextPageUrl, mergePages } from '../lib/pagination.js'
+
+function page(body: string, head = ''): Document {
+  const { document } = parseHTML(`<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`)
+  return document as unknown as Document
+}
+
+describe('findNextPageUrl', () => {
+  it.each([
+    // Page numbers in the query
+    ['https://a.example/post', '<a href="?page=2">2</a>', 'https://a.example/post?page=2'],
+    ['https://a.example/post?page=2', '<a href="?page=3">3</a>', 'https://a.example/post?page=3'],
+    ['https://a.example/post?id=7', '<a href="?id=7&p=2">Next</a>', 'https://a.example/post?id=7&p=2'],
+    [
+      'https://a.example/?paged=4&cat=1',
+      '<a href="/?cat=1&paged=5">»</a>',
+      'https://a.example/?cat=1&paged=5',
+    ],
+    // Page numbers in the path
+    ['https://a.example/story', '<a href="/story/2/">2</a>', 'https://a.example/story/2/'],
+    ['https://a.example/story/', '<a href="/story/page/2">2</a>', 'https://a.example/story/page/2'],
+    ['https://a.example/story/2', '<a href="/story/3">3</a>', 'https://a.example/story/3'],
+    ['https://a.example/post/123', '<a href="/post/124">Next post</a>', null], // A post ID, not a page
+    // Which link wins
+    [
+      'https://a.example/post',
+      '<a href="/post?page=3">3</a><a href="/post?page=2">2</a>',
+      'https://a.example/post?page=2',
+    ],
+    ['https://a.example/post', '<a href="/other?page=2">Other list</a>', null],
+    ['https://a.example/post', '<a href="/post?page=2&sort=new">Comments</a>', null],
+    ['https://a.example/post', '<a href="https://b.example/post?page=2">2</a>', null], // Another origin
+    ['https://a.example/post', '<a href="http://a.example/post?page=2">2</a>', null], // Another scheme
+    ['https://a.example/post', '<a href="javascript:void(0)">2</a>', null],
+    ['https://a.example/post', '<a href="/post?page=2#comments">2</a>', 'https://a.example/post?page=2'],
+    // Loops: never back to this page or an earlier one
+    ['https://a.example/post?page=2', '<a href="?page=2">2</a><a href="?page=1">1</a>', null],
+    ['https://a.example/post?page=2', '<a href="/post">1</a>', null],
+    ['https://a.example/post/3/', '<a href="/post/2/">Previous</a><a href="/post/3/">3</a>', null],
+    ['https://a.example/post', '', null],
+  ])('%s with %s → %s', (pageUrl, body, next) => {
+    expect(findNextPageUrl(page(body), pageUrl)).toBe(next)
+  })
+
+  it('prefers rel="next" over the order of links', () => {
+    const document = page('<a href="/post?page=3">3</a>', '<link rel="next" href="/post?page=2">')
+    expect(findNextPageUrl(document, 'https://a.example/post')).toBe('https://a.example/post?page=2')
+  })
+
+  it('ignores a rel="next" link to another article', () => {
+    const document = page('<a rel="next" href="/next-post">Next post</a><a href="?page=2">2</a>')
+    expect(findNextPageUrl(document, 'https://a.example/post')).toBe('https://a.example/post?page=2')
+  })
+})
+
+describe('mergePages', () => {
+  const FIGURE = '<figure><img src="/a.png"><figcaption>A</figcaption></figure>'
+
+  it.each([
+    ['one page', ['<p>Only</p>'], null, '<p>Only</p>'],
+    ['two pages', ['<p>One</p>', '<p>Two</p>'], null, '<p>One</p>\n<p>Two</p>'],
+    [
+      'a repeated title',
+      ['<h1>Title</h1><p>One</p>', '<h1>Title</h1><p>Two</p>'],
+      null,
+      '<h1>Title</h1><p>One</p>\n<p>Two</p>',
+    ],
+    ['the article title', ['<p>One</p>', '<h2> TITLE </h2><p>Two</p>'], 'Title', '<p>One</p>\n<p>Two</p>'],
+    [
+      'a repeated byline',
+      ['<p>By Sam</p><p>One</p>', '<p>by  sam</p><p>Two</p>'],
+      null,
+      '<p>By Sam</p><p>One</p>\n<p>Two</p>',
+    ],
+    ['repeated text on one page', ['<p>Again</p><p>Again</p>'], null, '<p>Again</p><p>Again</p>'],
+    [
+      'page navigation',
+      ['<p>One</p><p>1 2 3 Next »</p>', '<p>‹ Previous | Page 2 of 3</p><p>Two</p>'],
+      null,
+      '<p>One</p>\n<p>Two</p>',
+    ],
+    ['a numbered paragraph', ['<p>2 of the 3 tests</p>'], null, '<p>2 of the 3 tests</p>'],
+    ['a repeated image', [FIGURE, FIGURE], null, `${FIGURE}\n${FIGURE}`],
+    [
+      'a list holding a repeated paragraph',
+      ['<p>Note</p>', '<ul><li><p>Note</p></li><li>New</li></ul>'],
+      null,
+      '<p>Note</p>\n<ul><li></li><li>New</li></ul>',
+    ],
+  ])('%s', (_name, contents, title, merged) => {
+    expect(mergePages(contents, title)).toBe(merged)
+  })
+})
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { CachedFetchOptions, CachedFetchResult } from '../lib/cache.js'
+
+// Pages served by the mocked cachedFetch: requested URL → final URL and HTML
+const site = vi.hoisted(() => ({
+  pages: new Map<string, { finalUrl: string; html: string }>(),
+  calls: [] as Array<{ url: string; credentials: Record<string, string> | undefined }>,
+}))
+
+vi.mock('../lib/cache.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/cache.js')>()),
+  cachedFetch: async (url: string, options: CachedFetchOptions): Promise<CachedFetchResult> => {
+    site.calls.push({ url, credentials: options.credentials })
+    const page = site.pages.get(url)
+    if (!page) return result(url, 404, '')
+    return {
+      ...result(page.finalUrl, 200, page.html),
+      redirects: page.finalUrl === url ? [] : [{ url, status: 301 }],
+    }
+  },
+}))
+
+const { default: handler } = await import('../api/parse.js')
+
+function result(url: string, status: number, html: string): CachedFetchResult {
+  return {
+    response: new Response(null, { status, headers: { 'content-type': 'text/html; charset=utf-8' } }),
+    url,
+    redirects: [],
+    attempts: 1,
+    body: new TextEncoder().encode(html),
+    cache: 'MISS',
+  }
+}
+
+function articlePage(page: number, nextHref: string | null): string {
+  const paragraphs = Array.from(
+    { length: 6 },
+    (_, i) =>
+      `<p>Page ${page}, paragraph ${i + 1}: a long enough stretch of article text that Readability ` +
+      `treats this block as the main content of the document, with commas, clauses, and detail.</p>`
+  ).join('')
+  const next = nextHref ? `<a rel="next" href="${nextHref}">Next</a>` : ''
+  return `<!DOCTYPE html><html><head><title>Article</title></head><body><article><h1>Article</h1>${paragraphs}</article>${next}</body></html>`
+}
+
+async function parse(body: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const json = JSON.stringify(body)
+  const req = {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'content-length': String(json.length) },
+    query: {},
+    body,
+    socket: {},
+  } as unknown as VercelRequest
+
+  let sent: Record<string, unknown> = {}
+  const res = {
+    statusCode: 200,
+    setHeader: () => res,
+    status(code: number) {
+      res.statusCode = code
+      return res
+    },
+    json(payload: Record<string, unknown>) {
+      sent = payload
+      return res.end()
+    },
+    end: () => res,
+  }
+  await handler(req, res as unknown as VercelResponse)
+  return sent
+}
+
+const bearer = { type: 'bearer', token: 'secret-token' }
+
+beforeEach(() => {
+  site.pages.clear()
+  site.calls.length = 0
+})
+
+describe('POST /parse pagination with credentials', () => {
+  it('sends credentials to later pages on the requested host', async () => {
+    site.pages.set('https://blog.example.com/post', {
+      finalUrl: 'https://blog.example.com/post',
+      html: articlePage(1, '/post?page=2'),
+    })
+    site.pages.set('https://blog.example.com/post?page=2', {
+      finalUrl: 'https://blog.example.com/post?page=2',
+      html: articlePage(2, null),
+    })
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 3, credentials: bearer })
+
+    expect(response.pages).toEqual(['https://blog.example.com/post', 'https://blog.example.com/post?page=2'])
+    expect(site.calls.map((call) => call.credentials)).toEqual([
+      { Authorization: 'Bearer secret-token' },
+      { Authorization: 'Bearer secret-token' },
+    ])
+  })
+
+  it('stops before a later page on the host the first page redirected to', async () => {
+    site.pages.set('https://blog.example.com/post', {
+      finalUrl: 'https://mirror.example.net/post',
+      html: articlePage(1, '/post?page=2'),
+    })
+    site.pages.set('https://mirror.example.net/post?page=2', {
+      finalUrl: 'https://mirror.example.net/post?page=2',
+      html: articlePage(2, null),
+    })
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 3, credentials: bearer })
+
+    expect(response.success).toBe(true)
+    expect(response.pages).toEqual(['https://mirror.example.net/post'])
+    expect(site.calls.map((call) => call.url)).toEqual(['https://blog.example.com/post'])
+  })
+
+  it('stops before a later page that drops from https to http', async () => {
+    site.pages.set('https://blog.example.com/post', {
+      finalUrl: 'https://blog.example.com/post',
+      html: articlePage(1, 'http://blog.example.com/post?page=2'),
+    })
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 3, credentials: bearer })
+
+    expect(response.pages).toEqual(['https://blog.example.com/post'])
+    expect(site.calls).toHaveLength(1)
+  })
+
+  it('follows the redirected host when no credentials are set', async () => {
+    site.pages.set('https://blog.example.com/post', {
+      finalUrl: 'https://mirror.example.net/post',
+      html: articlePage(1, '/post?page=2'),
+    })
+    site.pages.set('https://mirror.example.net/post?page=2', {
+      finalUrl: 'https://mirror.example.net/post?page=2',
+      html: articlePage(2, null),
+    })
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 3 })
+
+    expect(response.pages).toEqual(['https://mirror.example.net/post', 'https://mirror.example.net/post?page=2'])
+  })
+})
+
+describe('POST /parse pagination loops', () => {
+  it('stops when a later page redirects back to an earlier one', async () => {
+    site.pages.set('https://blog.example.com/post', {
+      finalUrl: 'https://blog.example.com/post',
+      html: articlePage(1, '/post?page=2'),
+    })
+    site.pages.set('https://blog.example.com/post?page=2', {
+      finalUrl: 'https://blog.example.com/post?page=2',
+      html: articlePage(2, '/post?page=3'),
+    })
+    site.pages.set('https://blog.example.com/post?page=3', {
+      finalUrl: 'https://blog.example.com/post',
+      html: articlePage(1, '/post?page=2'),
+    })
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 10 })
+
+    expect(response.pages).toEqual(['https://blog.example.com/post', 'https://blog.example.com/post?page=2'])
+    expect(site.calls).toHaveLength(3)
+  })
+
+  it('stops when a redirected page leads back to a page already merged', async () => {
+    site.pages.set('https://blog.example.com/post', {
+      finalUrl: 'https://blog.example.com/post',
+      html: articlePage(1, '/post?page=2'),
+    })
+    // Page 2 lands on the same article under a path-style URL, whose next page is ?page=2 again
+    site.pages.set('https://blog.example.com/post?page=2', {
+      finalUrl: 'https://blog.example.com/post/1/',
+      html: articlePage(2, '/post?page=2'),
+    })
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 10 })
+
+    // The repeated request lands on a merged page again, which ends the article
+    expect(response.pages).toEqual(['https://blog.example.com/post', 'https://blog.example.com/post/1/'])
+    expect(site.calls.map((call) => call.url)).toEqual([
+      'https://blog.example.com/post',
+      'https://blog.example.com/post?page=2',
+      'https://blog.example.com/post?page=2',
+    ])
+  })
+
+  it('stops at maxPages', async () => {
+    for (let page = 1; page <= 5; page++) {
+      const url = page === 1 ? 'https://blog.example.com/post' : `https://blog.example.com/post?page=${page}`
+      site.pages.set(url, { finalUrl: url, html: articlePage(page, `/post?page=${page + 1}`) })
+    }
+
+    const response = await parse({ url: 'https://blog.example.com/post', maxPages: 3 })
+
+    expect(response.pages).toHaveLength(3)
+    expect(site.calls).toHaveLength(3)
+  })
+})
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VercelRequest } from '@vercel/node'
+import type { AuthResult } from '../lib/auth.js'
+
+vi.hoisted(() => {
+  process.env.RATE_LIMIT_PER_IP = '5'
+  process.env.RATE_LIMIT_PER_KEY = '3'
+})
+
+const { checkRateLimit, createMemoryStore, getClientIp } = await import('../lib/ratelimit.js')
+
+function request(ip: string): VercelRequest {
+  return { headers: { 'x-forwarded-for': ip }, socket: {} } as unknown as VercelRequest
+}
+
+const alice: AuthResult = { authenticated: true, client: 'alice' }
+const anonymous: AuthResult = { authenticated: true }
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createMemoryStore', () => {
+  it('starts full and takes one token by default', async () => {
+    const store = createMemoryStore()
+    const [state] = await store.take([{ key: 'a', capacity: 10 }])
+    expect(state).toEqual({ allowed: true, taken: 1, remaining: 9, resetMs: 6000, retryAfterMs: 0 })
+  })
+
+  it('takes up to the cost, then what is left, then nothing', async () => {
+    const store = createMemoryStore()
+    const bucket = [{ key: 'a', capacity: 5 }]
+    expect((await store.take(bucket, 3))[0]).toMatchObject({ taken: 3, remaining: 2 })
+    expect((await store.take(bucket, 3))[0]).toMatchObject({ taken: 2, remaining: 0 })
+    expect((await store.take(bucket, 3))[0]).toEqual({
+      allowed: false,
+      taken: 0,
+      remaining: 0,
+      resetMs: 60000,
+      retryAfterMs: 12000,
+    })
+  })
+
+  it('refills in proportion to the time passed', async () => {
+    const store = createMemoryStore()
+    const bucket = [{ key: 'a', capacity: 60 }]
+    await store.take(bucket, 60)
+    expect((await store.take(bucket))[0].allowed).toBe(false)
+
+    vi.advanceTimersByTime(1000)
+    expect((await store.take(bucket))[0]).toMatchObject({ allowed: true, taken: 1, remaining: 0 })
+
+    vi.advanceTimersByTime(120_000)
+    expect((await store.take(bucket))[0].remaining).toBe(59) // Capped at capacity
+  })
+
+  it('takes the same amount from every bucket, limited by the emptiest', async () => {
+    const store = createMemoryStore()
+    const buckets = [
+      { key: 'key', capacity: 2 },
+      { key: 'ip', capacity: 10 },
+    ]
+    const states = await store.take(buckets, 5)
+    expect(states.map((state) => [state.taken, state.remaining])).toEqual([
+      [2, 0],
+      [2, 8],
+    ])
+  })
+
+  it('takes nothing from the other buckets when one denies', async () => {
+    const store = createMemoryStore()
+    await store.take([{ key: 'key', capacity: 1 }])
+
+    const states = await store.take([
+      { key: 'key', capacity: 1 },
+      { key: 'ip', capacity: 10 },
+    ])
+
+    expect(states.map((state) => state.allowed)).toEqual([false, true])
+    expect((await store.take([{ key: 'ip', capacity: 10 }]))[0].remaining).toBe(9)
+  })
+
+  it('keeps buckets apart by key', async () => {
+    const store = createMemoryStore()
+    await store.take([{ key: 'a', capacity: 1 }])
+    expect((await store.take([{ key: 'b', capacity: 1 }]))[0].allowed).toBe(true)
+  })
+})
+
+describe('getClientIp', () => {
+  it.each([
+    [{ 'x-forwarded-for': '203.0.113.9, 10.0.0.1' }, '203.0.113.9'],
+    [{ 'x-real-ip': '198.51.100.7' }, '198.51.100.7'],
+    [{}, 'unknown'],
+  ])('reads %j as %s', (headers, ip) => {
+    expect(getClientIp({ headers, socket: {} } as unknown as VercelRequest)).toBe(ip)
+  })
+})
+
+describe('checkRateLimit', () => {
+  it('reports the bucket with the fewest tokens left', async () => {
+    const result = await checkRateLimit(request('203.0.113.9'), alice, 1, createMemoryStore())
+    expect(result).toEqual({
+      allowed: true,
+      granted: 1,
+      limit: 3,
+      remaining: 2,
+      resetSeconds: 20,
+      retryAfterSeconds: 0,
+    })
+  })
+
+  it('uses the per-key override', async () => {
+    const result = await checkRateLimit(request('203.0.113.9'), { ...alice, rateLimit: 100 }, 1, createMemoryStore())
+    expect(result).toMatchObject({ limit: 5, remaining: 4 }) // The IP bucket is now the tighter one
+  })
+
+  it('denies with the wait from the empty bucket and leaves the others untouched', async () => {
+    const store = createMemoryStore()
+    for (let i = 0; i < 3; i++) await checkRateLimit(request('203.0.113.9'), alice, 1, store)
+
+    const denied = await checkRateLimit(request('203.0.113.9'), alice, 1, store)
+    expect(denied).toMatchObject({ allowed: false, granted: 0, limit: 3, remaining: 0, retryAfterSeconds: 20 })
+
+    // The IP bucket kept the token the key bucket couldn't match
+    const other = await checkRateLimit(request('203.0.113.9'), anonymous, 1, store)
+    expect(other).toMatchObject({ allowed: true, limit: 5, remaining: 1 })
+  })
+
+  it('grants part of a larger cost and charges only that much', async () => {
+    const store = createMemoryStore()
+    const batch = await checkRateLimit(request('203.0.113.9'), alice, 10, store)
+    expect(batch).toMatchObject({ allowed: true, granted: 3, remaining: 0 })
+
+    const other = await checkRateLimit(request('203.0.113.9'), anonymous, 1, store)
+    expect(other).toMatchObject({ remaining: 1 }) // 5 - 3 granted - 1
+  })
+
+  it('lets the request through when the store fails', async () => {
+    const store = { take: () => Promise.reject(new Error('down')) }
+    expect(await checkRateLimit(request('203.0.113.9'), alice, 1, store)).toBeNull()
+  })
+})
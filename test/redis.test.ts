@@ -0,0 +1,263 @@
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createRedisClient, type RedisClient } from '../lib/redis.js'
+import { createRedisStore } from '../lib/ratelimit.js'
+import { createRedisUsageStore } from '../lib/usage.js'
+import { createRedisCacheStore, type CacheEntry } from '../lib/cache.js'
+
+// A stand-in Redis server: it decodes each RESP command, records it, and
+// writes back whatever `reply` returns for it, already RESP-encoded
+interface FakeRedis {
+  url: string
+  commands: string[][]
+  reply: (args: string[]) => string
+  sockets: Socket[]
+}
+
+const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+const array = (items: string[]) => `*${items.length}\r\n${items.join('')}`
+
+function decodeCommands(buffer: Buffer): { commands: string[][]; rest: Buffer } {
+  const commands: string[][] = []
+  let offset = 0
+  for (;;) {
+    const start = offset
+    const header = buffer.indexOf('\r\n', offset)
+    if (header === -1) break
+    const count = parseInt(buffer.toString('utf8', offset + 1, header), 10)
+    offset = header + 2
+    const args: string[] = []
+    for (let i = 0; i < count; i++) {
+      const lengthEnd = buffer.indexOf('\r\n', offset)
+      if (lengthEnd === -1) break
+      const length = parseInt(buffer.toString('utf8', offset + 1, lengthEnd), 10)
+      if (buffer.length < lengthEnd + 2 + length + 2) break
+      args.push(buffer.toString('utf8', lengthEnd + 2, lengthEnd + 2 + length))
+      offset = lengthEnd + 2 + length + 2
+    }
+    if (args.length < count) {
+      offset = start
+      break
+    }
+    commands.push(args)
+  }
+  return { commands, rest: buffer.subarray(offset) }
+}
+
+let server: Server
+let redis: FakeRedis
+let client: RedisClient
+
+beforeEach(async () => {
+  redis = { url: '', commands: [], reply: () => '+OK\r\n', sockets: [] }
+  server = createServer((socket) => {
+    redis.sockets.push(socket)
+    let pending: Buffer = Buffer.alloc(0)
+    socket.on('data', (chunk) => {
+      const { commands, rest } = decodeCommands(Buffer.concat([pending, chunk]))
+      pending = rest
+      for (const args of commands) {
+        redis.commands.push(args)
+        socket.write(redis.reply(args))
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  redis.url = `redis://127.0.0.1:${(server.address() as AddressInfo).port}`
+  client = createRedisClient(redis.url)
+})
+
+afterEach(async () => {
+  client.close()
+  for (const socket of redis.sockets) socket.destroy()
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('createRedisClient', () => {
+  it('decodes every reply type', async () => {
+    const replies: Record<string, string> = {
+      PING: '+PONG\r\n',
+      INCR: ':42\r\n',
+      GET: bulk('héllo\r\nworld'),
+      MISSING: '$-1\r\n',
+      LIST: array([bulk('a'), ':1\r\n', '$-1\r\n']),
+    }
+    redis.reply = ([name]) => replies[name]
+
+    expect(await client.command(['PING'])).toBe('PONG')
+    expect(await client.command(['INCR', 'n'])).toBe(42)
+    expect(await client.command(['GET', 'k'])).toBe('héllo\r\nworld')
+    expect(await client.command(['MISSING'])).toBeNull()
+    expect(await client.command(['LIST'])).toEqual(['a', 1, null])
+  })
+
+  it('encodes arguments as bulk strings, including numbers and multibyte text', async () => {
+    await client.command(['SET', 'clé', 'va\r\nlue', 'EX', 60])
+    expect(redis.commands).toEqual([['SET', 'clé', 'va\r\nlue', 'EX', '60']])
+  })
+
+  it('matches pipelined replies to commands in order', async () => {
+    redis.reply = ([, key]) => bulk(`value-${key}`)
+    const replies = await Promise.all(['a', 'b', 'c'].map((key) => client.command(['GET', key])))
+    expect(replies).toEqual(['value-a', 'value-b', 'value-c'])
+  })
+
+  it('reassembles a reply split across packets', async () => {
+    redis.reply = () => ''
+    const reply = client.command(['GET', 'k'])
+    await expect.poll(() => redis.commands.length).toBe(1)
+    const encoded = bulk('split reply')
+    for (const char of encoded) {
+      redis.sockets[0].write(char)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+    }
+    expect(await reply).toBe('split reply')
+  })
+
+  it('rejects a command answered with an error and keeps the connection', async () => {
+    redis.reply = ([name]) => (name === 'BAD' ? '-ERR unknown command\r\n' : '+OK\r\n')
+    await expect(client.command(['BAD'])).rejects.toThrow('ERR unknown command')
+    expect(await client.command(['PING'])).toBe('OK')
+    expect(redis.sockets).toHaveLength(1)
+  })
+
+  it('sends AUTH and SELECT from the URL before the first command', async () => {
+    client.close()
+    const url = new URL(redis.url)
+    url.username = 'proxy'
+    url.password = 'p@ss word'
+    url.pathname = '/3'
+    client = createRedisClient(url.href)
+
+    await client.command(['PING'])
+    expect(redis.commands).toEqual([['AUTH', 'proxy', 'p@ss word'], ['SELECT', '3'], ['PING']])
+  })
+
+  it('times out commands the server never answers, then reconnects', async () => {
+    client.close()
+    client = createRedisClient(redis.url, 100)
+    redis.reply = () => ''
+
+    const replies = [client.command(['GET', 'a']), client.command(['GET', 'b'])]
+    await expect(replies[0]).rejects.toThrow('Redis command timed out')
+    await expect(replies[1]).rejects.toThrow('Redis command timed out')
+    await expect.poll(() => redis.sockets[0].destroyed).toBe(true)
+
+    redis.reply = () => '+PONG\r\n'
+    expect(await client.command(['PING'])).toBe('PONG')
+    expect(redis.sockets).toHaveLength(2)
+  })
+
+  it('fails pending commands when the connection drops, then reconnects', async () => {
+    redis.reply = () => ''
+    const reply = client.command(['GET', 'k'])
+    await expect.poll(() => redis.commands.length).toBe(1)
+    redis.sockets[0].destroy()
+    await expect(reply).rejects.toThrow('Redis connection closed')
+
+    redis.reply = () => '+PONG\r\n'
+    expect(await client.command(['PING'])).toBe('PONG')
+    expect(redis.sockets).toHaveLength(2)
+  })
+})
+
+describe('createRedisStore', () => {
+  it('takes from every bucket with one EVAL over the prefixed keys', async () => {
+    redis.reply = () => array([':3\r\n', bulk('2.5'), bulk('57')])
+    const store = createRedisStore(client, 'test:')
+
+    const states = await store.take(
+      [
+        { key: 'key:alice', capacity: 10 },
+        { key: 'ip:203.0.113.9', capacity: 60 },
+      ],
+      3
+    )
+
+    const [name, script, ...args] = redis.commands[0]
+    expect(name).toBe('EVAL')
+    expect(script).toMatch(/redis\.call\('TIME'\)/)
+    expect(args).toEqual(['2', 'test:key:alice', 'test:ip:203.0.113.9', '60000', '3', '10', '60'])
+    expect(states).toEqual([
+      { allowed: true, taken: 3, remaining: 2, resetMs: 45000, retryAfterMs: 0 },
+      { allowed: true, taken: 3, remaining: 57, resetMs: 3000, retryAfterMs: 0 },
+    ])
+  })
+
+  it('reports the empty bucket as the one denying, with the wait for its next token', async () => {
+    redis.reply = () => array([':0\r\n', bulk('0.25'), bulk('4')])
+    const states = await createRedisStore(client).take([
+      { key: 'ip:203.0.113.9', capacity: 60 },
+      { key: 'key:alice', capacity: 10 },
+    ])
+
+    expect(redis.commands[0].slice(2, 6)).toEqual(['2', 'bab:ratelimit:ip:203.0.113.9', 'bab:ratelimit:key:alice', '60000'])
+    expect(redis.commands[0][6]).toBe('1')
+    expect(states).toEqual([
+      { allowed: false, taken: 0, remaining: 0, resetMs: 59750, retryAfterMs: 750 },
+      { allowed: true, taken: 0, remaining: 4, resetMs: 36000, retryAfterMs: 0 },
+    ])
+  })
+
+  it('surfaces a Redis error so checkRateLimit can fail open', async () => {
+    redis.reply = () => '-NOSCRIPT scripting disabled\r\n'
+    await expect(createRedisStore(client).take([{ key: 'key:alice', capacity: 10 }])).rejects.toThrow('NOSCRIPT')
+  })
+})
+
+describe('createRedisUsageStore', () => {
+  it('increments rounded counters and refreshes the expiry', async () => {
+    const store = createRedisUsageStore(client, 'u:')
+    await store.increment('m:2026-10:alice:fetch', { requests: 2, upstream_ms: 12.6 }, 3600)
+
+    expect(redis.commands).toEqual([
+      ['HINCRBY', 'u:m:2026-10:alice:fetch', 'requests', '2'],
+      ['HINCRBY', 'u:m:2026-10:alice:fetch', 'upstream_ms', '13'],
+      ['EXPIRE', 'u:m:2026-10:alice:fetch', '3600'],
+    ])
+  })
+
+  it('reads counters and clients back', async () => {
+    redis.reply = ([name]) =>
+      name === 'HGETALL'
+        ? array([bulk('requests'), bulk('7'), bulk('errors'), bulk('1')])
+        : name === 'SMEMBERS'
+          ? array([bulk('alice'), bulk('anonymous')])
+          : '$-1\r\n'
+    const store = createRedisUsageStore(client, 'u:')
+
+    expect(await store.read('d:2026-10-19:alice:_total')).toEqual({ requests: 7, errors: 1 })
+    expect(await store.listClients()).toEqual(['alice', 'anonymous'])
+  })
+
+  it('treats missing keys as empty', async () => {
+    redis.reply = () => '*-1\r\n'
+    const store = createRedisUsageStore(client)
+    expect(await store.read('nothing')).toEqual({})
+    expect(await store.listClients()).toEqual([])
+  })
+})
+
+describe('createRedisCacheStore', () => {
+  const entry: CacheEntry = {
+    status: 200,
+    statusText: 'OK',
+    headers: { etag: '"v1"' },
+    body: Buffer.from('<rss/>').toString('base64'),
+    url: 'https://example.com/feed',
+    redirects: [],
+    storedAt: 1_760_000_000_000,
+  }
+
+  it('stores entries as JSON with a whole-second expiry', async () => {
+    await createRedisCacheStore(client, 'c:').set('abc', entry, 90.2)
+    expect(redis.commands).toEqual([['SET', 'c:abc', JSON.stringify(entry), 'EX', '91']])
+  })
+
+  it('returns the stored entry, or null on a miss', async () => {
+    redis.reply = ([, key]) => (key === 'bab:cache:hit' ? bulk(JSON.stringify(entry)) : '$-1\r\n')
+    const store = createRedisCacheStore(client)
+    expect(await store.get('hit')).toEqual(entry)
+    expect(await store.get('miss')).toBeNull()
+  })
+})
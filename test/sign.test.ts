@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { Endpoint } from '../lib/auth.js'
+
+vi.hoisted(() => {
+  process.env.BAB_SIGNING_SECRET = 'test-signing-secret'
+  process.env.BAB_API_KEYS = JSON.stringify([
+    { name: 'app', key: 'app-key' },
+    { name: 'feeds', key: 'feeds-key', endpoints: ['fetch', 'sign'] },
+    { name: 'temp', key: 'temp-key', expires: '2026-10-20T00:00:00Z' },
+  ])
+})
+
+const { default: handler } = await import('../api/sign.js')
+const { validateAuth, signUrl, signedQuery } = await import('../lib/auth.js')
+const { SIGNED_URL_DEFAULT_TTL, SIGNED_URL_MAX_TTL } = await import('../lib/config.js')
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+const NOW_SECONDS = NOW.getTime() / 1000
+const TARGET = 'https://blog.example.com/feed.xml'
+
+async function sign(apiKey: string, body: Record<string, unknown>) {
+  const json = JSON.stringify(body)
+  const req = {
+    method: 'POST',
+    headers: {
+      host: 'proxy.example.com',
+      'content-type': 'application/json',
+      'content-length': String(json.length),
+      'x-api-key': apiKey,
+    },
+    query: {},
+    body,
+    socket: {},
+  } as unknown as VercelRequest
+
+  const sent = { status: 200, body: {} as Record<string, unknown> }
+  const res = {
+    setHeader: () => res,
+    status(code: number) {
+      sent.status = code
+      return res
+    },
+    json(payload: Record<string, unknown>) {
+      sent.body = payload
+      return res
+    },
+    end: () => res,
+  }
+  await handler(req, res as unknown as VercelResponse)
+  return sent
+}
+
+// A GET to the signed URL, as the target endpoint would receive it
+function signedRequest(query: Record<string, string>, method = 'GET'): VercelRequest {
+  return { method, headers: {}, query } as unknown as VercelRequest
+}
+
+function queryOf(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url).searchParams)
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('POST /sign', () => {
+  it('returns a URL the target endpoint accepts as the signing key', async () => {
+    const { body } = await sign('app-key', { url: TARGET, endpoint: 'raw' })
+    expect(body).toMatchObject({ success: true, expires: '2026-10-19T13:00:00.000Z' })
+
+    const url = new URL(body.url as string)
+    expect(`${url.origin}${url.pathname}`).toBe('https://proxy.example.com/raw')
+    expect(validateAuth(signedRequest(queryOf(url.href)), 'raw')).toMatchObject({
+      authenticated: true,
+      client: 'app',
+    })
+  })
+
+  it.each([
+    ['no ttl', undefined, SIGNED_URL_DEFAULT_TTL],
+    ['a short ttl', 60, 60],
+    ['a fractional ttl', 90.9, 90],
+    ['a negative ttl', -5, SIGNED_URL_DEFAULT_TTL],
+    ['a ttl past the cap', SIGNED_URL_MAX_TTL * 10, SIGNED_URL_MAX_TTL],
+  ])('signs for %s', async (_name, ttl, seconds) => {
+    const { body } = await sign('app-key', { url: TARGET, endpoint: 'fetch', ttl })
+    expect(Number(queryOf(body.url as string).exp)).toBe(NOW_SECONDS + seconds)
+  })
+
+  it.each([
+    ['an endpoint the key may not call', 'feeds-key', { url: TARGET, endpoint: 'image' }, 403],
+    ['an endpoint that takes no URL', 'app-key', { url: TARGET, endpoint: 'usage' }, 400],
+    ['a missing url', 'app-key', { endpoint: 'fetch' }, 400],
+    ['an unknown key', 'wrong-key', { url: TARGET, endpoint: 'fetch' }, 401],
+  ])('refuses %s', async (_name, apiKey, body, status) => {
+    expect((await sign(apiKey, body)).status).toBe(status)
+  })
+
+  it('refuses a URL the proxy would block', async () => {
+    const { status, body } = await sign('app-key', { url: 'http://127.0.0.1/admin', endpoint: 'fetch' })
+    expect(status).toBe(200)
+    expect(body.success).toBe(false)
+  })
+})
+
+describe('signed URL validation', () => {
+  const exp = NOW_SECONDS + 600
+
+  function signed(endpoint: Endpoint, expiry: number, client: string): Record<string, string> {
+    return Object.fromEntries(new URLSearchParams(signedQuery(signUrl(endpoint, TARGET, expiry, client))))
+  }
+
+  const valid = () => signed('fetch', exp, 'app')
+
+  const flipLast = (sig: string) => sig.replace(/.$/, (char) => (char === 'A' ? 'B' : 'A'))
+
+  it('accepts the untouched URL', () => {
+    expect(validateAuth(signedRequest(valid()), 'fetch')).toMatchObject({
+      authenticated: true,
+      client: 'app',
+    })
+  })
+
+  it.each<[string, (query: Record<string, string>) => Record<string, string>]>([
+    ['another target', (query) => ({ ...query, url: 'https://blog.example.com/other.xml' })],
+    ['a target with an extra query', (query) => ({ ...query, url: `${query.url}?x=1` })],
+    ['a later expiry', (query) => ({ ...query, exp: String(exp + 3600) })],
+    ['another client', (query) => ({ ...query, cid: 'feeds' })],
+    ['no client', ({ cid: _cid, ...query }) => query],
+    ['a changed signature', (query) => ({ ...query, sig: flipLast(query.sig) })],
+    ['a truncated signature', (query) => ({ ...query, sig: query.sig.slice(0, 10) })],
+    ['a non-numeric expiry', (query) => ({ ...query, exp: 'never' })],
+  ])('rejects %s', (_name, tamper) => {
+    expect(validateAuth(signedRequest(tamper(valid())), 'fetch')).toMatchObject({
+      authenticated: false,
+      error: 'Invalid or expired signature',
+      status: 401,
+    })
+  })
+
+  it('rejects the URL on another endpoint', () => {
+    expect(validateAuth(signedRequest(valid()), 'parse').authenticated).toBe(false)
+  })
+
+  it('rejects the URL on a POST, whose body could swap the target', () => {
+    expect(validateAuth(signedRequest(valid(), 'POST'), 'fetch').authenticated).toBe(false)
+  })
+
+  it.each([
+    [599, true],
+    [600, false], // Expires at exp itself
+    [601, false],
+  ])('after %s seconds → authenticated %s', (seconds, authenticated) => {
+    vi.setSystemTime(NOW.getTime() + seconds * 1000)
+    expect(validateAuth(signedRequest(valid()), 'fetch').authenticated).toBe(authenticated)
+  })
+
+  it('stops accepting URLs once the signing key expires', () => {
+    const query = signed('fetch', NOW_SECONDS + 86_400, 'temp')
+    expect(validateAuth(signedRequest(query), 'fetch').authenticated).toBe(true)
+
+    vi.setSystemTime(new Date('2026-10-20T00:00:00Z'))
+    expect(validateAuth(signedRequest(query), 'fetch').authenticated).toBe(false)
+  })
+
+  it('rejects URLs signed for a key that is no longer configured', () => {
+    expect(validateAuth(signedRequest(signed('fetch', exp, 'removed')), 'fetch').authenticated).toBe(false)
+  })
+
+  it('rejects URLs signed for an endpoint outside the key’s scope', () => {
+    expect(validateAuth(signedRequest(signed('parse', exp, 'feeds')), 'parse').authenticated).toBe(false)
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest'
+import { parseHTML } from 'linkedom'
+import {
+  applySiteRule,
+  findSiteRule,
+  rewriteSinglePageUrl,
+  type SiteExtraction,
+  type SiteRule,
+} from '../lib/siterules.js'
+
+function rule(fields: Partial<SiteRule>): SiteRule {
+  return {
+    name: 'test',
+    hosts: [{ type: 'exact', host: 'example.com' }],
+    content: [],
+    strip: [],
+    title: [],
+    author: [],
+    date: [],
+    singlePage: [],
+    ...fields,
+  }
+}
+
+function page(body: string): Document {
+  return parseHTML(`<!DOCTYPE html><html><body>${body}</body></html>`).document as unknown as Document
+}
+
+describe('applySiteRule', () => {
+  it.each<[string, Partial<SiteRule>, string, keyof SiteExtraction, string | null]>([
+    // Title
+    [
+      'the first title selector with text',
+      { title: ['h1.missing', 'h1'] },
+      '<h1>  The\n title </h1>',
+      'title',
+      'The title',
+    ],
+    [
+      'an empty title match skipped',
+      { title: ['h1', 'h2'] },
+      '<h1> </h1><h2>Fallback</h2>',
+      'title',
+      'Fallback',
+    ],
+    ['no title', { title: ['h1'] }, '<p>Text</p>', 'title', null],
+    // Authors
+    [
+      'every author the selector matches',
+      { author: ['.by a'] },
+      '<p class="by"><a>Sam</a> and <a>Alex</a></p>',
+      'byline',
+      'Sam, Alex',
+    ],
+    [
+      'repeated authors once',
+      { author: ['.by'] },
+      '<span class="by">Sam</span><span class="by"> Sam </span>',
+      'byline',
+      'Sam',
+    ],
+    [
+      'the next author selector',
+      { author: ['.none', '.author'] },
+      '<span class="author">Sam</span>',
+      'byline',
+      'Sam',
+    ],
+    // Dates
+    [
+      'a datetime attribute',
+      { date: ['time'] },
+      '<time datetime="2026-10-18T09:00:00Z">Yesterday</time>',
+      'publishedTime',
+      '2026-10-18T09:00:00.000Z',
+    ],
+    [
+      'a content attribute',
+      { date: ['meta'] },
+      '<meta content="2026-10-18">',
+      'publishedTime',
+      '2026-10-18T00:00:00.000Z',
+    ],
+    [
+      'the element text',
+      { date: ['.date'] },
+      '<span class="date">18 Oct 2026 09:00 UTC</span>',
+      'publishedTime',
+      '2026-10-18T09:00:00.000Z',
+    ],
+    [
+      'an unparseable date skipped',
+      { date: ['.date', 'time'] },
+      '<span class="date">Last week</span><time datetime="2026-10-01">',
+      'publishedTime',
+      '2026-10-01T00:00:00.000Z',
+    ],
+    ['no date', { date: ['time'] }, '<span>Undated</span>', 'publishedTime', null],
+    // Content
+    [
+      'the first content selector that matches',
+      { content: ['.missing', 'article'] },
+      '<article><p>Body</p></article>',
+      'content',
+      '<div><article><p>Body</p></article></div>',
+    ],
+    [
+      'every match of the selector',
+      { content: ['.part'] },
+      '<p class="part">One</p><p>Ad</p><p class="part">Two</p>',
+      'content',
+      '<div><p class="part">One</p><p class="part">Two</p></div>',
+    ],
+    [
+      'matches nested in another once',
+      { content: ['.body'] },
+      '<div class="body"><div class="body">Inner</div></div>',
+      'content',
+      '<div><div class="body"><div class="body">Inner</div></div></div>',
+    ],
+    ['no content match', { content: ['article'] }, '<main>Body</main>', 'content', null],
+    [
+      'text of every match',
+      { content: ['.part'] },
+      '<p class="part"> One </p><p class="part"></p><p class="part">Two</p>',
+      'textContent',
+      'One\n\nTwo',
+    ],
+    // Stripping
+    [
+      'stripped elements left out of the content',
+      { content: ['article'], strip: ['.share', 'aside'] },
+      '<article><p>Body</p><div class="share">Share</div><aside>Related</aside></article>',
+      'content',
+      '<div><article><p>Body</p></article></div>',
+    ],
+    [
+      'stripped elements left out of the title',
+      { title: ['h1'], strip: ['h1 .badge'] },
+      '<h1>Title <span class="badge">New</span></h1>',
+      'title',
+      'Title',
+    ],
+    [
+      'a stripped author ignored',
+      { author: ['.author'], strip: ['.comments'] },
+      '<div class="comments"><span class="author">Commenter</span></div>',
+      'byline',
+      null,
+    ],
+  ])('%s', (_name, fields, body, field, expected) => {
+    expect(applySiteRule(page(body), rule(fields))[field]).toBe(expected)
+  })
+
+  it('strips from the document Readability will run on when no content matches', () => {
+    const document = page('<main><p>Body</p><div class="newsletter">Subscribe</div></main>')
+    const extraction = applySiteRule(document, rule({ content: ['.missing'], strip: ['.newsletter'] }))
+    expect(extraction).toMatchObject({ title: null, content: null, textContent: '' })
+    expect(document.querySelector('.newsletter')).toBeNull()
+  })
+})
+
+describe('findSiteRule', () => {
+  it.each([
+    ['https://someone.substack.com/p/post', 'substack'],
+    ['https://a.b.substack.com/p/post', 'substack'],
+    ['https://SOMEONE.Substack.com./p/post', 'substack'],
+    ['https://substack.com/p/post', null], // The wildcard needs a subdomain
+    ['https://notsubstack.com/p/post', null],
+    ['https://dev.to/someone/post', 'dev.to'],
+    ['https://www.dev.to/someone/post', null],
+    ['https://someone.blogspot.com/2026/10/post.html', 'blogger'],
+    ['https://example.com/post', null],
+    ['not a url', null],
+  ])('%s → %s', (url, name) => {
+    expect(findSiteRule(url)?.name ?? null).toBe(name)
+  })
+})
+
+describe('rewriteSinglePageUrl', () => {
+  const paged = rule({
+    singlePage: [
+      { pattern: /\/story\/(\d+)$/, replace: '/story/$1?view=all' },
+      { pattern: /\/story\/(\d+)\/print$/, replace: 'https://print.example.net/$1' },
+      { pattern: /\/story\/(\d+)\/odd$/, replace: 'http://[bad/$1' },
+    ],
+  })
+
+  it.each([
+    ['https://example.com/story/42', 'https://example.com/story/42?view=all'],
+    ['https://example.com/story/42/print', 'https://example.com/story/42/print'], // Another host
+    ['https://example.com/story/42/odd', 'https://example.com/story/42/odd'], // Not a URL
+    ['https://example.com/about', 'https://example.com/about'],
+  ])('%s → %s', (url, rewritten) => {
+    expect(rewriteSinglePageUrl(paged, url)).toBe(rewritten)
+  })
+})
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canonicalizeIP,
+  createHostPolicy,
+  formatIP,
+  isBlockedIP,
+  parseIP,
+  resolveHost,
+  validateUrl,
+  type ResolvedAddress,
+  type Resolver,
+} from '../lib/ssrf.js'
+
+function ip(input: string) {
+  const parsed = parseIP(input)
+  if (!parsed) throw new Error(`Not an IP: ${input}`)
+  return parsed
+}
+
+function fakeResolver(records: Record<string, string[]>): Resolver {
+  return async (hostname) => {
+    const addresses = records[hostname]
+    if (!addresses) throw new Error(`ENOTFOUND ${hostname}`)
+    return addresses.map(
+      (address): ResolvedAddress => ({ address, family: address.includes(':') ? 6 : 4 })
+    )
+  }
+}
+
+describe('isBlockedIP', () => {
+  it.each([
+    // Dotted quad
+    ['127.0.0.1', true],
+    ['10.1.2.3', true],
+    ['172.16.0.1', true],
+    ['192.168.1.1', true],
+    ['0.0.0.0', true],
+    ['169.254.169.254', true], // Link-local, cloud metadata
+    ['100.64.0.1', true], // Carrier-grade NAT
+    ['100.127.255.255', true],
+    ['224.0.0.1', true],
+    ['255.255.255.255', true],
+    // Decimal, octal and hex spellings of loopback
+    ['2130706433', true],
+    ['0177.0.0.1', true],
+    ['0x7f.0.0.1', true],
+    ['0x7f000001', true],
+    ['127.1', true],
+    // IPv6
+    ['::', true],
+    ['::1', true],
+    ['[::1]', true],
+    ['fe80::1', true],
+    ['fe80::1%eth0', true], // Zone ID
+    ['fd00::1', true],
+    ['ff02::1', true],
+    ['2001:db8::1', true],
+    // IPv6 embedding a private IPv4 address
+    ['::ffff:127.0.0.1', true],
+    ['::ffff:7f00:1', true],
+    ['::ffff:169.254.169.254', true],
+    ['64:ff9b::10.0.0.1', true], // NAT64
+    ['64:ff9b:1::a9fe:a9fe', true], // Local-use NAT64
+    ['2002:c0a8:0101::1', true], // 6to4 of 192.168.1.1
+    ['2002:7f00:1::', true],
+    // Public addresses
+    ['8.8.8.8', false],
+    ['100.63.255.255', false], // Just below CGNAT
+    ['100.128.0.0', false], // Just above CGNAT
+    ['2606:4700:4700::1111', false],
+    ['::ffff:8.8.8.8', false],
+    ['64:ff9b::808:808', false],
+    ['2002:808:808::1', false],
+  ])('%s → blocked %s', (input, blocked) => {
+    expect(isBlockedIP(ip(input))).toBe(blocked)
+  })
+})
+
+describe('canonicalizeIP', () => {
+  it.each([
+    ['::ffff:127.0.0.1', '127.0.0.1'],
+    ['::ffff:a9fe:a9fe', '169.254.169.254'],
+    ['64:ff9b::c0a8:1', '192.168.0.1'],
+    ['64:ff9b:1::808:808', '8.8.8.8'],
+    ['2002:0a00:0001::', '10.0.0.1'],
+    ['::7f00:1', '127.0.0.1'], // Deprecated IPv4-compatible form
+    ['2130706433', '127.0.0.1'],
+    ['0300.0250.0.1', '192.168.0.1'],
+    ['2606:4700:4700::1111', '2606:4700:4700:0:0:0:0:1111'],
+  ])('%s → %s', (input, expected) => {
+    expect(formatIP(canonicalizeIP(ip(input)))).toBe(expected)
+  })
+})
+
+describe('validateUrl', () => {
+  const policy = createHostPolicy({})
+
+  it.each([
+    ['http://127.0.0.1/', 'BLOCKED_URL'],
+    ['http://2130706433/', 'BLOCKED_URL'],
+    ['http://0177.0.0.1/', 'BLOCKED_URL'],
+    ['http://0x7f.1/', 'BLOCKED_URL'],
+    ['http://0.0.0.0/', 'BLOCKED_URL'],
+    ['http://169.254.169.254/latest/meta-data/', 'BLOCKED_URL'],
+    ['http://100.64.0.1/', 'BLOCKED_URL'],
+    ['http://[::1]/', 'BLOCKED_URL'],
+    ['http://[::ffff:127.0.0.1]/', 'BLOCKED_URL'],
+    ['http://[64:ff9b::a00:1]/', 'BLOCKED_URL'],
+    ['http://[2002:c0a8:101::]/', 'BLOCKED_URL'],
+    ['http://[fe80::1]/', 'BLOCKED_URL'],
+    ['http://localhost/', 'BLOCKED_URL'],
+    ['http://localhost./', 'BLOCKED_URL'],
+    ['http://LOCALHOST/', 'BLOCKED_URL'],
+    ['http://app.localhost/', 'BLOCKED_URL'],
+    ['http://metadata.google.internal/', 'BLOCKED_URL'],
+    ['http://printer.local/', 'BLOCKED_URL'],
+    ['http://example.com:8080/', 'BLOCKED_URL'],
+    ['ftp://example.com/', 'INVALID_URL'],
+    ['file:///etc/passwd', 'INVALID_URL'],
+    ['not a url', 'INVALID_URL'],
+    ['http://[fe80::1%25eth0]/', 'INVALID_URL'], // URL parser rejects zone IDs
+  ])('rejects %s with %s', (url, code) => {
+    const result = validateUrl(url, policy)
+    expect(result.valid).toBe(false)
+    expect(result.error?.code).toBe(code)
+  })
+
+  it.each([
+    'https://example.com/feed.xml',
+    'http://blog.example.org/rss',
+    'https://example.com:443/atom',
+    'http://8.8.8.8/',
+    'http://[2606:4700:4700::1111]/',
+  ])('allows %s', (url) => {
+    const result = validateUrl(url, policy)
+    expect(result.valid).toBe(true)
+    expect(result.url?.href).toBe(new URL(url).href)
+  })
+
+  it('applies the operator blocklist and allowlist', () => {
+    const operator = createHostPolicy({
+      allowedHosts: ['*.example.com', 'feeds.example.org', '8.8.8.0/24'],
+      blockedHosts: ['bad.example.com'],
+    })
+    expect(validateUrl('https://blog.example.com/', operator).valid).toBe(true)
+    expect(validateUrl('https://feeds.example.org/', operator).valid).toBe(true)
+    expect(validateUrl('http://8.8.8.8/', operator).valid).toBe(true)
+    expect(validateUrl('https://bad.example.com/', operator).error?.message).toMatch(/blocked by the proxy operator/)
+    expect(validateUrl('https://example.com/', operator).valid).toBe(true) // CIDR rules decide after DNS
+    expect(validateUrl('http://1.1.1.1/', operator).error?.message).toMatch(/not on the proxy allowlist/)
+  })
+
+  it('never lets the allowlist widen the private ranges', () => {
+    const operator = createHostPolicy({ allowedHosts: ['127.0.0.0/8', 'localhost'] })
+    expect(validateUrl('http://127.0.0.1/', operator).valid).toBe(false)
+    expect(validateUrl('http://localhost/', operator).valid).toBe(false)
+  })
+})
+
+describe('resolveHost', () => {
+  const policy = createHostPolicy({})
+  const resolver = fakeResolver({
+    'example.com': ['93.184.215.14', '2606:2800:21f:cb07:6820:80da:af6b:8b2c'],
+    'rebind.example.com': ['93.184.215.14', '127.0.0.1'],
+    'mapped.example.com': ['::ffff:10.0.0.1'],
+    'nat64.example.com': ['64:ff9b::a9fe:a9fe'],
+    'zone.example.com': ['fe80::1%eth0'],
+    'cgnat.example.com': ['100.100.100.100'],
+    'empty.example.com': [],
+  })
+
+  it('returns every vetted address for a public host', async () => {
+    const result = await resolveHost('example.com', resolver, policy)
+    expect(result.valid).toBe(true)
+    expect(result.addresses?.map((a) => a.address)).toEqual([
+      '93.184.215.14',
+      '2606:2800:21f:cb07:6820:80da:af6b:8b2c',
+    ])
+  })
+
+  it('normalizes case and a trailing dot before resolving', async () => {
+    const result = await resolveHost('Example.COM.', resolver, policy)
+    expect(result.valid).toBe(true)
+  })
+
+  it.each([
+    'rebind.example.com', // One private record is enough
+    'mapped.example.com',
+    'nat64.example.com',
+    'zone.example.com',
+    'cgnat.example.com',
+  ])('rejects %s for resolving to a private address', async (host) => {
+    const result = await resolveHost(host, resolver, policy)
+    expect(result.valid).toBe(false)
+    expect(result.error?.code).toBe('BLOCKED_URL')
+  })
+
+  it.each(['missing.example.com', 'empty.example.com'])('reports %s as unresolvable', async (host) => {
+    const result = await resolveHost(host, resolver, policy)
+    expect(result.valid).toBe(false)
+    expect(result.error?.code).toBe('FETCH_FAILED')
+  })
+
+  it('passes IP literals through without a lookup', async () => {
+    const result = await resolveHost('[2606:4700:4700::1111]', fakeResolver({}), policy)
+    expect(result.addresses).toEqual([{ address: '2606:4700:4700:0:0:0:0:1111', family: 6 }])
+  })
+
+  it('checks resolved addresses against operator CIDR rules', async () => {
+    const allowlist = createHostPolicy({ allowedHosts: ['93.184.215.0/24'] })
+    const blocklist = createHostPolicy({ blockedHosts: ['2606:2800::/32'] })
+    const other = fakeResolver({ 'other.example.net': ['1.1.1.1'] })
+
+    expect((await resolveHost('example.com', resolver, allowlist)).valid).toBe(false) // AAAA is outside
+    expect((await resolveHost('other.example.net', other, allowlist)).error?.message).toMatch(/outside the proxy allowlist/)
+    expect((await resolveHost('example.com', resolver, blocklist)).error?.message).toMatch(/blocked by the proxy operator/)
+  })
+})